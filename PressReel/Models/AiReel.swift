@@ -13,10 +13,23 @@ struct AiReel: Identifiable, Codable {
     let voiceId: String
     let tone: ReelTone
     let userId: String
+    var targetDuration: Int?
+    var language: String?
+    var analysisVersion: Int?
+    var errorCode: String?
+    var retryable: Bool?
+    
+    /// Failed reels can be retried unless the backend marked the failure as permanent
+    var canRetry: Bool {
+        if case .failed = status {
+            return retryable ?? true
+        }
+        return false
+    }
     
     var isProcessing: Bool {
         switch status {
-        case .completed, .failed, .cancelled:
+        case .completed, .failed, .cancelled, .awaitingApproval:
             return false
         default:
             return true
@@ -47,6 +60,11 @@ struct AiReel: Identifiable, Codable {
         case voiceId
         case tone
         case userId
+        case targetDuration
+        case language
+        case analysisVersion
+        case errorCode
+        case retryable
     }
     
     init(from decoder: Decoder) throws {
@@ -74,6 +92,11 @@ struct AiReel: Identifiable, Codable {
         voiceId = try container.decode(String.self, forKey: .voiceId)
         tone = try container.decode(ReelTone.self, forKey: .tone)
         userId = try container.decode(String.self, forKey: .userId)
+        targetDuration = try container.decodeIfPresent(Int.self, forKey: .targetDuration)
+        language = try container.decodeIfPresent(String.self, forKey: .language)
+        analysisVersion = try container.decodeIfPresent(Int.self, forKey: .analysisVersion)
+        errorCode = try container.decodeIfPresent(String.self, forKey: .errorCode)
+        retryable = try container.decodeIfPresent(Bool.self, forKey: .retryable)
     }
     
     func encode(to encoder: Encoder) throws {
@@ -89,6 +112,11 @@ struct AiReel: Identifiable, Codable {
         try container.encode(voiceId, forKey: .voiceId)
         try container.encode(tone, forKey: .tone)
         try container.encode(userId, forKey: .userId)
+        try container.encodeIfPresent(targetDuration, forKey: .targetDuration)
+        try container.encodeIfPresent(language, forKey: .language)
+        try container.encodeIfPresent(analysisVersion, forKey: .analysisVersion)
+        try container.encodeIfPresent(errorCode, forKey: .errorCode)
+        try container.encodeIfPresent(retryable, forKey: .retryable)
     }
     
     // Helper method to convert status string from Firestore to ReelStatus enum
@@ -98,6 +126,7 @@ struct AiReel: Identifiable, Codable {
         case "analyzing": return .analyzing
         case "generatingvoiceover": return .generatingVoiceover
         case "gatheringvisuals": return .gatheringVisuals
+        case "awaitingapproval": return .awaitingApproval
         case "assemblingvideo": return .assemblingVideo
         case "finalizing": return .finalizing
         case "completed": return .completed
@@ -3,20 +3,22 @@ import Foundation
 enum ReelStatus: Hashable, CaseIterable, Codable {
     case processing
     case analyzing
-    case generatingVoiceover
     case gatheringVisuals
+    case awaitingApproval
+    case generatingVoiceover
     case assemblingVideo
     case finalizing
     case completed
     case failed(error: String)
     case cancelled
     
+    // Steps shown while a reel is generated; awaitingApproval only applies to storyboard reels
     static var allCases: [ReelStatus] {
         [
             .processing,
             .analyzing,
-            .generatingVoiceover,
             .gatheringVisuals,
+            .generatingVoiceover,
             .assemblingVideo,
             .finalizing,
             .completed,
@@ -34,6 +36,8 @@ enum ReelStatus: Hashable, CaseIterable, Codable {
             return "Generating Voiceover"
         case .gatheringVisuals:
             return "Gathering Visuals"
+        case .awaitingApproval:
+            return "Awaiting Approval"
         case .assemblingVideo:
             return "Assembling Video"
         case .finalizing:
@@ -51,8 +55,9 @@ enum ReelStatus: Hashable, CaseIterable, Codable {
         switch self {
         case .processing: return 0.0
         case .analyzing: return 0.2
-        case .generatingVoiceover: return 0.4
-        case .gatheringVisuals: return 0.6
+        case .gatheringVisuals: return 0.4
+        case .awaitingApproval: return 0.5
+        case .generatingVoiceover: return 0.6
         case .assemblingVideo: return 0.8
         case .finalizing: return 0.9
         case .completed: return 1.0
@@ -82,6 +87,8 @@ enum ReelStatus: Hashable, CaseIterable, Codable {
             hasher.combine(error)
         case .cancelled:
             hasher.combine(8)
+        case .awaitingApproval:
+            hasher.combine(9)
         }
     }
     
@@ -91,6 +98,7 @@ enum ReelStatus: Hashable, CaseIterable, Codable {
              (.analyzing, .analyzing),
              (.generatingVoiceover, .generatingVoiceover),
              (.gatheringVisuals, .gatheringVisuals),
+             (.awaitingApproval, .awaitingApproval),
              (.assemblingVideo, .assemblingVideo),
              (.finalizing, .finalizing),
              (.completed, .completed),
@@ -118,6 +126,7 @@ enum ReelStatus: Hashable, CaseIterable, Codable {
         case "analyzing": self = .analyzing
         case "generatingvoiceover": self = .generatingVoiceover
         case "gatheringvisuals": self = .gatheringVisuals
+        case "awaitingapproval": self = .awaitingApproval
         case "assemblingvideo": self = .assemblingVideo
         case "finalizing": self = .finalizing
         case "completed": self = .completed
@@ -142,6 +151,8 @@ enum ReelStatus: Hashable, CaseIterable, Codable {
             try container.encode("generatingvoiceover", forKey: .status)
         case .gatheringVisuals:
             try container.encode("gatheringvisuals", forKey: .status)
+        case .awaitingApproval:
+            try container.encode("awaitingapproval", forKey: .status)
         case .assemblingVideo:
             try container.encode("assemblingvideo", forKey: .status)
         case .finalizing:
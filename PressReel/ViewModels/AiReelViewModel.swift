@@ -10,6 +10,9 @@ class AiReelViewModel: ObservableObject {
     @Published var availableVoices: [Voice] = []
     @Published var selectedVoiceId: String?
     @Published var selectedTone: ReelTone = .professional
+    @Published var selectedDuration: Int = 30 // Target length in seconds (15 - 120)
+    @Published var selectedLanguage: String = "en" // en, es, fr, ar or hi
+    @Published var regeneratePlan = false // Ask for a new plan even if the script was planned before
     @Published var isLoading = false
     @Published var error: Error?
     @Published var currentReel: AiReel?
@@ -79,7 +82,8 @@ class AiReelViewModel: ObservableObject {
                 "userId": currentUser.uid,
                 "content": script,
                 "createdAt": Timestamp(date: Date()),
-                "title": "AI Reel Script"
+                "title": "AI Reel Script",
+                "language": selectedLanguage
             ]
             
             print("📢 Attempting to save script with data: \(scriptData)")
@@ -106,6 +110,9 @@ class AiReelViewModel: ObservableObject {
                 "voiceId": reel.voiceId,
                 "tone": reel.tone.rawValue,
                 "userId": reel.userId,
+                "targetDuration": selectedDuration,
+                "language": selectedLanguage,
+                "regeneratePlan": regeneratePlan,
                 "videoURL": reel.videoURL as Any,
                 "thumbnailURL": reel.thumbnailURL as Any
             ]
@@ -142,6 +142,25 @@ struct ReelProgressView: View {
                             .shadow(color: .red.opacity(0.3), radius: 10, x: 0, y: 0)
                     }
                     
+                    // Sub-stage detail and remaining time
+                    if viewModel.progressDetail != nil || viewModel.etaDescription != nil {
+                        VStack(spacing: 6) {
+                            if let detail = viewModel.progressDetail {
+                                Text(detail)
+                                    .font(.subheadline)
+                                    .foregroundColor(.white.opacity(0.8))
+                            }
+                            if let eta = viewModel.etaDescription {
+                                Text(eta)
+                                    .font(.caption)
+                                    .foregroundColor(.white.opacity(0.6))
+                            }
+                        }
+                        .multilineTextAlignment(.center)
+                        .padding(.horizontal)
+                        .animation(.easeInOut, value: viewModel.progressDetail)
+                    }
+                    
                     // Status Steps with Modern Style
                     VStack(alignment: .leading, spacing: 20) {
                         ForEach(ReelStatus.allCases, id: \.description) { status in
@@ -232,6 +251,8 @@ struct ReelProgressView: View {
 class ReelProgressViewModel: ObservableObject {
     @Published var currentStatus: ReelStatus = .processing
     @Published var progress: Double = 0.0
+    @Published var progressDetail: String?
+    @Published var etaSeconds: Int?
     @Published var isCompleted = false
     private var listener: ListenerRegistration?
     private let reelId: String
@@ -243,6 +264,7 @@ class ReelProgressViewModel: ObservableObject {
         case .analyzing: return "doc.text.magnifyingglass"
         case .generatingVoiceover: return "waveform"
         case .gatheringVisuals: return "photo.stack"
+        case .awaitingApproval: return "hand.thumbsup"
         case .assemblingVideo: return "film"
         case .finalizing: return "checkmark.circle"
         case .completed: return "checkmark.circle.fill"
@@ -251,6 +273,15 @@ class ReelProgressViewModel: ObservableObject {
         }
     }
     
+    var etaDescription: String? {
+        guard let etaSeconds = etaSeconds, !isCompleted else { return nil }
+        if etaSeconds < 60 {
+            return "Less than a minute left"
+        }
+        let minutes = Int((Double(etaSeconds) / 60).rounded())
+        return "About \(minutes) min left"
+    }
+    
     init(reelId: String) {
         self.reelId = reelId
         setupListener()
@@ -269,12 +300,15 @@ class ReelProgressViewModel: ObservableObject {
                 
                 DispatchQueue.main.async {
                     self.progress = data["progress"] as? Double ?? 0.0
+                    self.progressDetail = data["progressDetail"] as? String
+                    self.etaSeconds = data["etaSeconds"] as? Int
                     
                     switch status {
                     case "processing": self.currentStatus = .processing
                     case "analyzing": self.currentStatus = .analyzing
                     case "generatingVoiceover": self.currentStatus = .generatingVoiceover
                     case "gatheringVisuals": self.currentStatus = .gatheringVisuals
+                    case "awaitingApproval": self.currentStatus = .awaitingApproval
                     case "assemblingVideo": self.currentStatus = .assemblingVideo
                     case "finalizing": self.currentStatus = .finalizing
                     case "completed":
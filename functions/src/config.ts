@@ -13,8 +13,17 @@ console.log('Environment variables loaded:', {
   ELEVENLABS_API_KEY: !!process.env.ELEVENLABS_API_KEY,
   JAMENDO_API_KEY: !!process.env.JAMENDO_API_KEY,
   PEXELS_API_KEY: !!process.env.PEXELS_API_KEY,
+  ANTHROPIC_API_KEY: !!process.env.ANTHROPIC_API_KEY,
+  LLM_PROVIDERS: process.env.LLM_PROVIDERS,
 });
 
+export type LlmProviderName = 'openai' | 'anthropic' | 'local';
+
+export interface LlmModelConfig {
+  model: string;
+  temperature: number;
+}
+
 interface Config {
   openai: {
     apiKey: string;
@@ -31,8 +40,39 @@ interface Config {
   pexels: {
     apiKey: string;
   };
+  // Script analysis models. Each environment picks its own through its .env
+  // file (.env.<projectId>, or .env.local in the emulator).
+  llm: {
+    providers: LlmProviderName[]; // Fallback order, e.g. LLM_PROVIDERS=openai,anthropic
+    openai: LlmModelConfig;
+    anthropic: LlmModelConfig & { apiKey: string };
+    local: LlmModelConfig & { baseURL: string; apiKey: string }; // Any OpenAI-compatible server, e.g. Ollama
+  };
 }
 
+const parseProviders = (value: string | undefined): LlmProviderName[] =>
+  (value || 'openai')
+    .split(',')
+    .map(provider => provider.trim())
+    .filter((provider): provider is LlmProviderName => {
+      if (!['openai', 'anthropic', 'local'].includes(provider)) {
+        throw new Error(`Unknown LLM provider in LLM_PROVIDERS: ${provider}`);
+      }
+      return true;
+    });
+
+const parseTemperature = (key: string, fallback: number): number => {
+  const value = process.env[key];
+  if (!value) {
+    return fallback;
+  }
+  const temperature = Number(value);
+  if (Number.isNaN(temperature)) {
+    throw new Error(`${key} must be a number, got: ${value}`);
+  }
+  return temperature;
+};
+
 const config: Config = {
   openai: {
     apiKey: process.env.OPENAI_API_KEY || '',
@@ -49,11 +89,28 @@ const config: Config = {
   pexels: {
     apiKey: process.env.PEXELS_API_KEY || '',
   },
+  llm: {
+    providers: parseProviders(process.env.LLM_PROVIDERS),
+    openai: {
+      model: process.env.OPENAI_MODEL || 'gpt-4-turbo-preview',
+      temperature: parseTemperature('OPENAI_TEMPERATURE', 0.7),
+    },
+    anthropic: {
+      apiKey: process.env.ANTHROPIC_API_KEY || '',
+      model: process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-latest',
+      temperature: parseTemperature('ANTHROPIC_TEMPERATURE', 0.7),
+    },
+    local: {
+      baseURL: process.env.LOCAL_LLM_BASE_URL || '',
+      apiKey: process.env.LOCAL_LLM_API_KEY || 'local', // Most local servers ignore the key
+      model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+      temperature: parseTemperature('LOCAL_LLM_TEMPERATURE', 0.7),
+    },
+  },
 };
 
 // Validate required environment variables
 const requiredEnvVars = [
-  { key: 'OPENAI_API_KEY', value: config.openai.apiKey },
   { key: 'PIXABAY_API_KEY', value: config.pixabay.apiKey },
   { key: 'ELEVENLABS_API_KEY', value: config.elevenLabs.apiKey },
   { key: 'JAMENDO_API_KEY', value: config.jamendo.apiKey },
@@ -68,4 +125,15 @@ for (const { key, value } of requiredEnvVars) {
   }
 }
 
+// Providers in the fallback order need their own settings
+if (config.llm.providers.includes('openai') && !config.openai.apiKey) {
+  throw new Error('Missing required environment variable: OPENAI_API_KEY (listed in LLM_PROVIDERS)');
+}
+if (config.llm.providers.includes('anthropic') && !config.llm.anthropic.apiKey) {
+  throw new Error('Missing required environment variable: ANTHROPIC_API_KEY (listed in LLM_PROVIDERS)');
+}
+if (config.llm.providers.includes('local') && !config.llm.local.baseURL) {
+  throw new Error('Missing required environment variable: LOCAL_LLM_BASE_URL (listed in LLM_PROVIDERS)');
+}
+
 export default config; 
\ No newline at end of file
@@ -8,25 +8,20 @@
  */
 
 import { onDocumentCreated } from 'firebase-functions/v2/firestore';
-import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onCall, CallableRequest, HttpsError } from 'firebase-functions/v2/https';
 import * as admin from 'firebase-admin';
 import { DocumentSnapshot, FieldValue } from 'firebase-admin/firestore';
-import { VideoAnalysisService } from './services/videoAnalysis';
-import { PixabayService } from './services/pixabay';
-import { PexelsService } from './services/pexels';
-import { JamendoService } from './services/jamendo';
 import { ElevenLabsService } from './services/elevenLabs';
-import { WhisperService } from './services/whisper';
-import { FFmpegService } from './services/ffmpeg';
-import { updateReelStatus, handleError } from './utils/status';
-import { AiReel, SceneMedia, ReelTone } from './types';
-import * as fs from 'fs';
-import ffmpeg from 'fluent-ffmpeg';
+import { PronunciationStore, parsePronunciation } from './services/pronunciation';
+import { cancelReel, handleError } from './utils/status';
+import { toReelError } from './utils/errors';
+import { LANGUAGES } from './utils/languages';
+import { AiReel, PronunciationScope, StageTask } from './types';
 import axios from 'axios';
-import { TempFileManager } from './utils/tempFileManager';
-import { Bucket } from '@google-cloud/storage';
-import path from 'path';
+import { startReelPipeline, runStageTask, approveStoryboard, discardPipelineWork } from './pipeline/reelPipeline';
 import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { onTaskDispatched } from 'firebase-functions/v2/tasks';
+import { recoverStuckReels } from './pipeline/watchdog';
 import * as functions from 'firebase-functions';
 
 // Configure port for Cloud Run
@@ -51,18 +46,12 @@ try {
 }
 
 // Initialize services
-const videoAnalysis = new VideoAnalysisService();
 const elevenLabs = new ElevenLabsService();
-const pixabay = new PixabayService();
-const pexels = new PexelsService();
-const ffmpegService = new FFmpegService();
-const jamendo = new JamendoService();
+const pronunciationStore = new PronunciationStore();
 
-// Main function to handle reel generation
+// Main function to handle reel generation; the stages run as queued tasks
 export const generateAiReelV2 = onDocumentCreated({
   document: 'aiReels/{reelId}',
-  memory: '1GiB', // Increase memory allocation
-  timeoutSeconds: 540, // Set timeout to 9 minutes (max is 540s)
   region: 'us-central1' // Specify region for better performance
 }, async (event) => {
   console.log('🚀 generateAiReel function triggered');
@@ -77,301 +66,147 @@ export const generateAiReelV2 = onDocumentCreated({
   const reel = snap.data() as AiReel;
   console.log('📄 Reel data:', { reelId, ...reel });
 
-  // Get temp file manager instance
-  const tempFileManager = TempFileManager.getInstance();
-  
-  try {
-    // Initial status update
-    await updateReelStatus(reelId, 'processing');
-    
-    // 1. Analyze script
-    console.log('🔍 Starting script analysis...');
-    await updateReelStatus(reelId, 'analyzing');
-    const analysis = await videoAnalysis.analyzeScript(reel.scriptId, reel.tone);
-    console.log('✅ Script analysis complete:', analysis);
-    
-    // 2. Generate voiceover
-    console.log('🎙 Starting voiceover generation...');
-    await updateReelStatus(reelId, 'generatingVoiceover');
-    const scriptDoc = await admin.firestore().collection('scripts').doc(reel.scriptId).get();
-    if (!scriptDoc.exists) {
-      throw new Error('Script document not found');
+  // Triggers are delivered at least once; a redelivery must not reset a running
+  // pipeline, so the first delivery claims the reel in a transaction
+  const claimed = await admin.firestore().runTransaction(async (transaction) => {
+    const current = await transaction.get(snap.ref);
+    if (!current.exists || current.data()?.processingStartedAt) {
+      return false;
     }
-    const scriptContent = scriptDoc.data()?.content;
-    if (!scriptContent) {
-      throw new Error('Script content is missing');
-    }
-    console.log('📝 Retrieved script content:', scriptContent);
-    const voiceoverPath = await elevenLabs.generateVoiceover(scriptContent, reel.voiceId, reel.tone);
-    tempFileManager.trackFile(voiceoverPath);
-    console.log('✅ Voiceover generated:', voiceoverPath);
-    
-    // 3. Generate captions
-    console.log('📺 Generating captions...');
-    const whisper = new WhisperService(reel.tone);
-    const captionsPath = await whisper.generateCaptions(voiceoverPath);
-    tempFileManager.trackFile(captionsPath);
-    console.log('✅ Captions generated:', captionsPath);
-    
-    // 4. Gather visuals
-    console.log('🎬 Gathering visuals...');
-    await updateReelStatus(reelId, 'gatheringVisuals');
-    const sceneMedia: SceneMedia[] = [];
-    for (const scene of analysis.scenes) {
-      console.log('🔍 Fetching media for scene:', scene);
-      try {
-        // Try Pexels first
-        const media = await pexels.fetchMediaForScene(scene);
-        if (media) {
-          sceneMedia.push(media);
-          continue;
-        }
-      } catch (error) {
-        console.log('Pexels search failed, falling back to Pixabay:', error);
-        try {
-          // Fallback to Pixabay
-          const media = await pixabay.fetchMediaForScene(scene);
-          if (media) {
-            sceneMedia.push(media);
-          }
-        } catch (pixabayError) {
-          console.error('Both Pexels and Pixabay search failed:', pixabayError);
-          throw new Error(`Failed to fetch media for scene: ${scene.description}`);
-        }
-      }
-    }
-    console.log('✅ All scene media gathered');
-
-    // 5. Fetch background music
-    console.log('🎵 Fetching background music...');
-    let backgroundMusicPath: string | null = null;
-    try {
-      console.log('🎵 Starting background music fetch with:', {
-        tone: reel.tone,
-        mood: analysis.contextAnalysis.mood
-      });
-      
-      backgroundMusicPath = await fetchAndDownloadMusic(reel.tone, analysis.contextAnalysis.mood);
-      
-      if (backgroundMusicPath) {
-        console.log('✅ Successfully downloaded background music to:', backgroundMusicPath);
-        tempFileManager.trackFile(backgroundMusicPath);
-      } else {
-        console.warn('⚠️ No background music was found or downloaded');
-      }
-    } catch (error) {
-      console.error('❌ Failed to fetch background music:', error);
-      // Log additional error details if available
-      if (error instanceof Error) {
-        console.error('Error details:', {
-          message: error.message,
-          stack: error.stack
-        });
-      }
-      // Continue without background music
-      console.log('⚠️ Proceeding without background music');
-    }
-    
-    // 6. Assemble video
-    console.log('🎥 Starting video assembly...');
-    await updateReelStatus(reelId, 'assemblingVideo');
-    const videoPath = await ffmpegService.assembleVideo(
-      analysis.scenes,
-      sceneMedia,
-      voiceoverPath,
-      captionsPath,
-      backgroundMusicPath,
-      reel.tone
-    );
-    tempFileManager.trackFile(videoPath);
-    console.log('✅ Video assembled:', videoPath);
-    
-    // 7. Generate thumbnail
-    console.log('🖼 Generating thumbnail...');
-    await updateReelStatus(reelId, 'finalizing');
-    const thumbnailPath = await generateThumbnail(videoPath);
-    tempFileManager.trackFile(thumbnailPath);
-    console.log('✅ Thumbnail generated:', thumbnailPath);
-    
-    // 8. Upload to Firebase Storage
-    console.log('⬆️ Starting upload process...');
-    const bucket = admin.storage().bucket();
-    
-    // Upload video and thumbnail
-    const [videoURL, thumbnailURL] = await Promise.all([
-      uploadToStorage(bucket, videoPath, `users/${reel.userId}/reels/${reelId}/final.mp4`, 'video/mp4'),
-      uploadToStorage(bucket, thumbnailPath, `users/${reel.userId}/reels/${reelId}/thumbnail.jpg`, 'image/jpeg')
-    ]);
-    
-    // Update reel document with completion
-    console.log('📝 Updating reel document with URLs...');
-    await updateReelStatus(reelId, 'completed');
-    await admin.firestore().collection('aiReels').doc(reelId).update({
-      videoURL,
-      thumbnailURL,
-      updatedAt: FieldValue.serverTimestamp()
-    });
-    
-    // Cleanup all temporary files
-    console.log('🧹 Cleaning up temporary files...');
-    tempFileManager.cleanup();
-    
-    console.log('🎉 Video generation completed successfully!');
-    
-  } catch (error: unknown) {
-    console.error('❌ Error in generateAiReel:', error);
-    // Clean up all temporary files
-    tempFileManager.cleanup();
-    await handleError(reelId, error instanceof Error ? error : new Error('Unknown error occurred'));
+    transaction.update(snap.ref, { processingStartedAt: FieldValue.serverTimestamp() });
+    return true;
+  });
+  if (!claimed) {
+    console.log(`⏭ Reel ${reelId} was already started, ignoring duplicate trigger`);
+    return;
+  }
+
+  try {
+    await startReelPipeline(reelId, reel);
+  } catch (error) {
+    // Redeliveries are ignored once the reel is claimed, so fail it rather than leave it to the watchdog
+    await handleError(reelId, error);
   }
 });
 
-// Helper function to fetch and download background music
-async function fetchAndDownloadMusic(tone: ReelTone, mood: string): Promise<string | null> {
-  const tempFileManager = TempFileManager.getInstance();
-  let retryCount = 0;
-  const maxRetries = 3;
-
-  while (retryCount < maxRetries) {
-    try {
-      const music = await jamendo.fetchBackgroundMusic(tone, mood);
-      if (!music?.url) {
-        console.log('❌ No valid music URL found');
-        return null;
-      }
+// Fails a reel whose pipeline could not be (re)started and tells the app why
+async function failToStart(reelId: string, error: unknown): Promise<HttpsError> {
+  const reelError = toReelError(error);
+  await handleError(reelId, reelError);
+  return new HttpsError('unavailable', reelError.userMessage);
+}
 
-      const musicPath = tempFileManager.createTempFilePath('bgm', '.mp3');
-      
-      const musicResponse = await axios({
-        method: 'get',
-        url: music.url,
-        responseType: 'stream'
-      });
-
-      await new Promise<void>((resolve, reject) => {
-        const writer = fs.createWriteStream(musicPath);
-        musicResponse.data.pipe(writer);
-        writer.on('finish', resolve);
-        writer.on('error', (error) => {
-          tempFileManager.removeFile(musicPath);
-          reject(error);
-        });
-      });
-
-      return musicPath;
-    } catch (error) {
-      console.error(`❌ Error fetching background music (attempt ${retryCount + 1}/${maxRetries}):`, error);
-      retryCount++;
-      
-      if (retryCount === maxRetries) {
-        console.error('❌ All attempts to fetch background music failed');
-        return null;
-      }
-    }
+// Task queue function that runs one pipeline stage (or one scene render) per invocation
+export const processReelStageV2 = onTaskDispatched<StageTask>({
+  retryConfig: {
+    maxAttempts: 3, // Only retried when the instance dies; stage errors fail the reel
+    minBackoffSeconds: 30
+  },
+  rateLimits: {
+    maxConcurrentDispatches: 20
+  },
+  memory: '2GiB',
+  timeoutSeconds: 1800, // Long reels need more than 9 minutes for the final mux
+  region: 'us-central1'
+}, async (request) => {
+  await runStageTask(request.data, { taskId: request.id, retryCount: request.retryCount });
+});
+
+// Function to retry a failed reel from its last checkpoint
+export const retryAiReelV2 = onCall({
+  region: 'us-central1'
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
   }
-  return null;
-}
 
-// Helper function to generate thumbnail
-async function generateThumbnail(videoPath: string): Promise<string> {
-  console.log('Starting thumbnail generation for video:', videoPath);
-  
-  // First verify the video file exists and has a video stream
-  if (!fs.existsSync(videoPath)) {
-    console.error('Video file not found at path:', videoPath);
-    throw new Error('Video file not found for thumbnail generation');
+  const { reelId, regeneratePlan } = request.data;
+  if (!reelId) {
+    throw new HttpsError('invalid-argument', 'Reel ID is required');
   }
-  console.log('✅ Video file exists');
-
-  // Probe the video file to verify it has a video stream
-  await new Promise<void>((resolve, reject) => {
-    console.log('Probing video file for streams...');
-    ffmpeg.ffprobe(videoPath, (err, metadata) => {
-      if (err) {
-        console.error('FFprobe error:', err);
-        reject(new Error(`Failed to probe video for thumbnail: ${err.message}`));
-        return;
-      }
-      
-      console.log('Video metadata:', JSON.stringify(metadata, null, 2));
-      const videoStream = metadata.streams.find(s => s.codec_type === 'video');
-      if (!videoStream) {
-        console.error('No video stream found in metadata');
-        reject(new Error('No video stream found in the input file'));
-        return;
-      }
-      
-      console.log('✅ Found video stream:', {
-        codec: videoStream.codec_name,
-        resolution: `${videoStream.width}x${videoStream.height}`,
-        duration: videoStream.duration
-      });
-      
-      resolve();
-    });
-  });
 
-  // Properly separate path components for FFmpeg
-  const folder = path.dirname(videoPath);
-  const baseName = path.basename(videoPath, '.mp4');
-  const filename = `${baseName}-thumb.jpg`;
-  const thumbnailPath = path.join(folder, filename);
-  
-  console.log('Generating thumbnail at:', thumbnailPath);
-  
-  await new Promise<void>((resolve, reject) => {
-    ffmpeg(videoPath)
-      .screenshots({
-        timestamps: ['50%'],
-        folder,             // specify the output folder
-        filename,           // specify the filename pattern
-        size: '1280x720'
-      })
-      .on('start', (cmd) => {
-        console.log('Started FFmpeg with command:', cmd);
-      })
-      .on('end', () => {
-        if (fs.existsSync(thumbnailPath) && fs.statSync(thumbnailPath).size > 0) {
-          console.log('✅ Thumbnail generated successfully');
-          resolve();
-        } else {
-          reject(new Error('Thumbnail file is missing or empty'));
-        }
-      })
-      .on('error', (err) => {
-        console.error('FFmpeg thumbnail generation error:', err);
-        reject(new Error(`Failed to generate thumbnail: ${err.message}`));
-      });
-  });
+  const reelDoc = await admin.firestore().collection('aiReels').doc(reelId).get();
+  if (!reelDoc.exists) {
+    throw new HttpsError('not-found', 'Reel not found');
+  }
 
-  return thumbnailPath;
-}
+  let reel = reelDoc.data() as AiReel;
+  if (reel.userId !== request.auth.uid) {
+    throw new HttpsError('permission-denied', 'Not authorized to retry this reel');
+  }
+  if (reel.status !== 'failed') {
+    throw new HttpsError('failed-precondition', 'Can only retry failed reels');
+  }
+  if (reel.retryable === false) {
+    throw new HttpsError('failed-precondition', 'This reel cannot be retried');
+  }
+
+  if (regeneratePlan === true) {
+    // Everything after the analysis was built from the old plan, so start over
+    await discardPipelineWork(reelId, reel);
+    await reelDoc.ref.update({ regeneratePlan: true });
+    reel = { ...reel, checkpoints: {}, regeneratePlan: true };
+  }
 
-// Helper function to upload to storage
-async function uploadToStorage(
-  bucket: Bucket,
-  filePath: string,
-  destination: string,
-  contentType: string
-): Promise<string> {
-  await bucket.upload(filePath, {
-    destination,
-    metadata: { contentType }
+  console.log('🔁 Retrying reel from checkpoints:', {
+    reelId,
+    regeneratePlan: !!reel.regeneratePlan,
+    completedStages: Object.keys(reel.checkpoints ?? {})
   });
-  await bucket.file(destination).makePublic();
-  return `https://storage.googleapis.com/${bucket.name}/${destination}`;
-}
+  try {
+    await startReelPipeline(reelId, reel);
+  } catch (error) {
+    throw await failToStart(reelId, error);
+  }
+  return { success: true };
+});
+
+// Function to approve the storyboard of a plan-only reel and continue to voiceover and render
+export const approveAiReelV2 = onCall({
+  region: 'us-central1'
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { reelId } = request.data;
+  if (!reelId) {
+    throw new HttpsError('invalid-argument', 'Reel ID is required');
+  }
+
+  const reelDoc = await admin.firestore().collection('aiReels').doc(reelId).get();
+  if (!reelDoc.exists) {
+    throw new HttpsError('not-found', 'Reel not found');
+  }
+
+  const reel = reelDoc.data() as AiReel;
+  if (reel.userId !== request.auth.uid) {
+    throw new HttpsError('permission-denied', 'Not authorized to approve this reel');
+  }
+
+  // Re-checked in a transaction, so a double tap cannot start the render twice
+  let approved: boolean;
+  try {
+    approved = await approveStoryboard(reelId);
+  } catch (error) {
+    throw await failToStart(reelId, error);
+  }
+  if (!approved) {
+    throw new HttpsError('failed-precondition', 'Can only approve reels awaiting approval');
+  }
+  return { success: true };
+});
 
 // Function to handle reel cancellation
 export const cancelAiReelV2 = onCall(async (request) => {
   // Ensure user is authenticated
   if (!request.auth) {
-    throw new Error('User must be authenticated');
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
   }
   
   const { reelId } = request.data;
   if (!reelId) {
-    throw new Error('Reel ID is required');
+    throw new HttpsError('invalid-argument', 'Reel ID is required');
   }
   
   try {
@@ -379,33 +214,102 @@ export const cancelAiReelV2 = onCall(async (request) => {
     const reelDoc = await reelRef.get();
     
     if (!reelDoc.exists) {
-      throw new Error('Reel not found');
+      throw new HttpsError('not-found', 'Reel not found');
     }
     
     const reel = reelDoc.data() as AiReel;
     
     // Ensure user owns the reel
     if (reel.userId !== request.auth.uid) {
-      throw new Error('Not authorized to cancel this reel');
+      throw new HttpsError('permission-denied', 'Not authorized to cancel this reel');
     }
     
-    // Only allow cancellation of processing reels
-    if (!['processing', 'analyzing', 'generatingVoiceover', 'gatheringVisuals', 'assemblingVideo'].includes(reel.status)) {
-      throw new Error('Can only cancel processing reels');
+    // Only processing reels can be cancelled; the status is re-checked with the write.
+    // The running pipeline watches the status, kills its in-flight work and
+    // cleans up its own temporary files
+    const cancelled = await cancelReel(reelId);
+    if (!cancelled) {
+      throw new HttpsError('failed-precondition', 'Can only cancel processing reels');
+    }
+    if (cancelled.status === 'awaitingApproval') {
+      // Nothing is running for a storyboard under review, so clean up here
+      await discardPipelineWork(reelId, cancelled);
     }
-    
-    // Clean up any temporary files
-    TempFileManager.getInstance().cleanup();
-    
-    await updateReelStatus(reelId, 'cancelled');
     return { success: true };
     
   } catch (error: any) {
     console.error('Error cancelling reel:', error);
-    // Ensure cleanup happens even on error
-    TempFileManager.getInstance().cleanup();
-    throw new Error(error.message);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', `Failed to cancel reel: ${error.message}`);
+  }
+});
+
+// Pronunciation lexicon: the user's own entries, or the global ones for admins
+const getPronunciationScope = (request: CallableRequest): PronunciationScope => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+  const scope = request.data?.scope ?? 'user';
+  if (scope !== 'user' && scope !== 'global') {
+    throw new HttpsError('invalid-argument', 'Scope must be user or global');
+  }
+  return scope;
+};
+
+// Function to list the global and the user's own pronunciations
+export const listPronunciationsV2 = onCall({
+  region: 'us-central1'
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const [global, user] = await Promise.all([
+    pronunciationStore.list('global', request.auth.uid),
+    pronunciationStore.list('user', request.auth.uid)
+  ]);
+  return { global, user };
+});
+
+// Function to add or replace the pronunciation of a term
+export const setPronunciationV2 = onCall({
+  region: 'us-central1'
+}, async (request) => {
+  const scope = getPronunciationScope(request);
+  if (scope === 'global' && request.auth?.token.admin !== true) {
+    throw new HttpsError('permission-denied', 'Only admins can change global pronunciations');
+  }
+
+  const parsed = parsePronunciation(request.data);
+  if ('error' in parsed) {
+    throw new HttpsError('invalid-argument', parsed.error);
   }
+
+  await pronunciationStore.set(parsed.entry, scope, request.auth!.uid);
+  console.log(`🗣 Set ${scope} pronunciation:`, parsed.entry);
+  return { success: true };
+});
+
+// Function to remove the pronunciation of a term
+export const deletePronunciationV2 = onCall({
+  region: 'us-central1'
+}, async (request) => {
+  const scope = getPronunciationScope(request);
+  if (scope === 'global' && request.auth?.token.admin !== true) {
+    throw new HttpsError('permission-denied', 'Only admins can change global pronunciations');
+  }
+
+  const { term } = request.data;
+  if (typeof term !== 'string' || !term.trim()) {
+    throw new HttpsError('invalid-argument', 'Term is required');
+  }
+
+  if (!await pronunciationStore.delete(term.trim(), scope, request.auth!.uid)) {
+    throw new HttpsError('not-found', 'No pronunciation for this term');
+  }
+  return { success: true };
 });
 
 // Function to fetch ElevenLabs voices
@@ -439,53 +343,82 @@ export const fetchLatestNews = onSchedule({
       throw new Error('Missing currents.key in Firebase Functions config');
     }
 
-    // Fetch latest news
-    const response = await axios.get(`https://api.currentsapi.services/v1/latest-news?apiKey=${currentsApiKey}&language=en`);
-    
-    if (!response.data || !response.data.news) {
-      throw new Error('Invalid response from Currents API');
-    }
-
     const batch = admin.firestore().batch();
     const newsCollection = admin.firestore().collection('news');
+    // Splits on anything but letters, marks and digits, so Arabic and Hindi titles stay searchable
+    const toSearchWords = (text: string) => text
+      .toLowerCase()
+      .split(/[^\p{L}\p{M}\p{N}]+/u)
+      .filter((word: string) => word.length > 0);
 
-    // Process each news item
-    for (const item of response.data.news) {
-      const newsItem = {
-        id: item.id,
-        title: item.title,
-        description: item.description,
-        url: item.url,
-        author: item.author,
-        image: item.image,
-        language: item.language,
-        category: item.category,
-        published: new Date(item.published),
-        likes: 0,
-        saves: 0,
-        userInteractions: {},
-        // Add searchable fields for better querying
-        searchableText: `${item.title} ${item.description}`
-          .toLowerCase()
-          .split(/\W+/)
-          .filter((word: string) => word.length > 0),
-        searchableTitle: item.title
-          .toLowerCase()
-          .split(/\W+/)
-          .filter((word: string) => word.length > 0),
-        updatedAt: FieldValue.serverTimestamp()
-      };
-
-      const docRef = newsCollection.doc(item.id);
-      batch.set(docRef, newsItem, { merge: true });
+    // Fetch latest news in every language reels can be made in
+    let articleCount = 0;
+    const failedLanguages: string[] = [];
+    for (const language of Object.keys(LANGUAGES)) {
+      let response;
+      try {
+        response = await axios.get(`https://api.currentsapi.services/v1/latest-news?apiKey=${currentsApiKey}&language=${language}`);
+      } catch (error) {
+        console.error(`Failed to fetch ${language} news:`, error);
+        failedLanguages.push(language);
+        continue;
+      }
+
+      if (!response.data || !response.data.news) {
+        console.error(`Invalid response from Currents API for ${language}:`, response.data);
+        failedLanguages.push(language);
+        continue;
+      }
+
+      // Process each news item
+      for (const item of response.data.news) {
+        const newsItem = {
+          id: item.id,
+          title: item.title,
+          description: item.description,
+          url: item.url,
+          author: item.author,
+          image: item.image,
+          language: item.language || language,
+          category: item.category,
+          published: new Date(item.published),
+          likes: 0,
+          saves: 0,
+          userInteractions: {},
+          // Add searchable fields for better querying
+          searchableText: toSearchWords(`${item.title} ${item.description}`),
+          searchableTitle: toSearchWords(item.title),
+          updatedAt: FieldValue.serverTimestamp()
+        };
+
+        const docRef = newsCollection.doc(item.id);
+        batch.set(docRef, newsItem, { merge: true });
+        articleCount++;
+      }
+    }
+
+    if (failedLanguages.length === Object.keys(LANGUAGES).length) {
+      throw new Error('Invalid response from Currents API');
     }
 
     // Commit the batch
     await batch.commit();
-    console.log(`Successfully updated ${response.data.news.length} news articles`);
+    console.log(`Successfully updated ${articleCount} news articles`, { failedLanguages });
 
   } catch (error) {
     console.error('Error in fetchLatestNews scheduled function:', error);
     throw error; // Retrying will be handled by Cloud Functions
   }
 });
+
+// Scheduled function that re-enqueues or fails reels whose pipeline stopped
+// without failing them, e.g. because an instance was killed mid-render
+export const recoverStuckReelsV2 = onSchedule({
+  schedule: "every 10 minutes",
+  timeZone: "UTC",
+  memory: "256MiB",
+  region: 'us-central1'
+}, async () => {
+  console.log('🐕 Checking for stuck reels...');
+  await recoverStuckReels();
+});
@@ -0,0 +1,1136 @@
+import * as admin from 'firebase-admin';
+import { DocumentData, FieldValue, Timestamp, UpdateData } from 'firebase-admin/firestore';
+import { VideoAnalysisService } from '../services/videoAnalysis';
+import { AnalysisInputs, AnalysisStore, getAnalysisCacheKey } from '../services/analysisStore';
+import { PixabayService } from '../services/pixabay';
+import { PexelsService } from '../services/pexels';
+import { JamendoService } from '../services/jamendo';
+import { ElevenLabsService } from '../services/elevenLabs';
+import { WhisperService } from '../services/whisper';
+import { AssembleVideoOptions, FFmpegService, getClipDuration } from '../services/ffmpeg';
+import { GraphicsService } from '../services/graphics';
+import {
+  updateReelStatus,
+  handleError,
+  CheckpointStore,
+  ReelWorkspace,
+  CancellationWatcher,
+  ReelCancelledError,
+  ProgressReporter,
+  getProgressForStatus,
+  ReelEventLog,
+  getFailureOutcome,
+  serializeError,
+  NoMediaFoundError,
+  ProviderAuthError,
+  ProviderQuotaError,
+  toProviderError,
+  getLanguage,
+  LanguageConfig,
+  ProcessingLease,
+  TaskDelivery,
+  getLeaseKey
+} from '../utils';
+import {
+  AiReel,
+  SceneMedia,
+  ReelTone,
+  ReelStatus,
+  PipelineStage,
+  StageTask,
+  VideoAnalysis,
+  VideoScene,
+  MediaSearchInfo,
+  ReelEventOutcome,
+  StoryboardScene
+} from '../types';
+import { VisualCoherence } from '../services/coherence';
+import { getReelPacing } from '../services/pacing';
+import { alignScenesToNarration, cleanScript } from '../services/sceneAlignment';
+import { applySensitivityProfile } from '../services/sensitivity';
+import { PronunciationStore } from '../services/pronunciation';
+import { enqueueStage, registerLocalStageHandler } from './stageQueue';
+import * as fs from 'fs';
+import { randomUUID } from 'crypto';
+import ffmpeg from 'fluent-ffmpeg';
+import axios from 'axios';
+import { Bucket } from '@google-cloud/storage';
+import path from 'path';
+
+// Initialize services
+const videoAnalysis = new VideoAnalysisService();
+const analysisStore = new AnalysisStore();
+const pronunciationStore = new PronunciationStore();
+const elevenLabs = new ElevenLabsService();
+const pixabay = new PixabayService();
+const pexels = new PexelsService();
+const jamendo = new JamendoService();
+
+// Scene renders and the final mux share the assemblingVideo slice of the progress bar
+const RENDER_PROGRESS_START = getProgressForStatus('assemblingVideo');
+const MUX_PROGRESS_START = 0.85;
+const MUX_PROGRESS_END = getProgressForStatus('finalizing');
+
+/**
+ * In-memory state of one stage task. Artifacts produced by earlier stages (in
+ * other invocations) are restored from their checkpoints on first use.
+ */
+class PipelineRun {
+  script?: { content: string; language: LanguageConfig };
+  analysis?: VideoAnalysis;
+  voiceoverPath?: string;
+  captionsPath?: string;
+  timeline?: VideoScene[];
+  sceneMedia?: SceneMedia[];
+  backgroundMusicPath?: string | null;
+  videoPath?: string;
+
+  constructor(
+    readonly task: StageTask,
+    readonly reel: AiReel,
+    readonly checkpoints: CheckpointStore,
+    readonly workspace: ReelWorkspace,
+    readonly cancellation: CancellationWatcher,
+    readonly events: ReelEventLog
+  ) {}
+
+  get reelId(): string {
+    return this.task.reelId;
+  }
+
+  get signal(): AbortSignal {
+    return this.cancellation.signal;
+  }
+
+  requireArtifact(stage: PipelineStage, name: string): string {
+    const storagePath = this.checkpoints.getArtifact(stage, name);
+    if (!storagePath) {
+      throw new Error(`Missing ${name} artifact from ${stage} stage`);
+    }
+    return storagePath;
+  }
+
+  // Script content and the reel's language, which overrides the script's own
+  async getScript(): Promise<{ content: string; language: LanguageConfig }> {
+    if (!this.script) {
+      const scriptDoc = await admin.firestore().collection('scripts').doc(this.reel.scriptId).get();
+      if (!scriptDoc.exists) {
+        throw new Error('Script document not found');
+      }
+      const content = scriptDoc.data()?.content;
+      if (!content) {
+        throw new Error('Script content is missing');
+      }
+      this.script = { content, language: getLanguage(this.reel.language ?? scriptDoc.data()?.language) };
+    }
+    return this.script;
+  }
+
+  async getAnalysis(): Promise<VideoAnalysis> {
+    if (!this.analysis) {
+      this.analysis = await this.checkpoints.loadJson<VideoAnalysis>(this.requireArtifact('analysis', 'analysis'));
+    }
+    return this.analysis;
+  }
+
+  async getVoiceoverPath(): Promise<string> {
+    if (!this.voiceoverPath) {
+      this.voiceoverPath = await this.checkpoints.restoreFile(this.requireArtifact('narration', 'voiceover'));
+    }
+    return this.voiceoverPath;
+  }
+
+  async getCaptionsPath(): Promise<string> {
+    if (!this.captionsPath) {
+      this.captionsPath = await this.checkpoints.restoreFile(this.requireArtifact('narration', 'captions'));
+    }
+    return this.captionsPath;
+  }
+
+  // Scenes with their final, voiceover-fitted durations
+  async getTimeline(): Promise<VideoScene[]> {
+    if (!this.timeline) {
+      this.timeline = await this.checkpoints.loadJson<VideoScene[]>(this.requireArtifact('narration', 'timeline'));
+    }
+    return this.timeline;
+  }
+
+  // Only downloads the files of the requested scene, so per-scene tasks stay light
+  async getSceneMedia(index: number): Promise<SceneMedia> {
+    if (!this.sceneMedia) {
+      const sceneMedia = await this.checkpoints.loadJson<SceneMedia[]>(this.requireArtifact('media', 'sceneMedia'));
+      // Local paths point into another invocation's workspace
+      sceneMedia.forEach(media => media.primary.forEach(item => delete item.localPath));
+      this.sceneMedia = sceneMedia;
+    }
+
+    const media = this.sceneMedia[index];
+    if (!media) {
+      throw new Error(`No media recorded for scene ${index}`);
+    }
+    for (const item of media.primary) {
+      if (!item.localPath && item.storagePath) {
+        item.localPath = await this.checkpoints.restoreFile(item.storagePath);
+      }
+    }
+    return media;
+  }
+
+  async getBackgroundMusicPath(): Promise<string | null> {
+    if (this.backgroundMusicPath === undefined) {
+      // The media stage completes without a music artifact when no track was found
+      const storagePath = this.checkpoints.getArtifact('media', 'music');
+      this.backgroundMusicPath = storagePath ? await this.checkpoints.restoreFile(storagePath) : null;
+    }
+    return this.backgroundMusicPath;
+  }
+
+  async getVideoPath(): Promise<string> {
+    if (!this.videoPath) {
+      this.videoPath = await this.checkpoints.restoreFile(this.requireArtifact('mux', 'video'));
+    }
+    return this.videoPath;
+  }
+}
+
+interface StageDefinition {
+  stage: PipelineStage;
+  status: ReelStatus;
+  // Whether the stage applies to the reel; stages without it always run
+  when?: (reel: AiReel) => boolean;
+  // Runs the stage and returns its artifacts (name -> Storage path) for the
+  // checkpoint, or null when the stage is being finished by other tasks
+  run: (run: PipelineRun) => Promise<Record<string, string> | null>;
+}
+
+const STAGES: StageDefinition[] = [
+  {
+    stage: 'analysis',
+    status: 'analyzing',
+    run: async (run) => {
+      console.log('🔍 Starting script analysis...');
+      const { sceneCountRange } = run.reel;
+      const pacing = getReelPacing(run.reel.targetDuration, sceneCountRange);
+      if (sceneCountRange && (pacing.minScenes !== sceneCountRange.min || pacing.maxScenes !== sceneCountRange.max)) {
+        console.log(`Scene count range ${sceneCountRange.min}-${sceneCountRange.max} does not fit a ${pacing.targetDuration}s reel, using ${pacing.minScenes}-${pacing.maxScenes}`);
+      }
+      const { content, language } = await run.getScript();
+      const inputs: AnalysisInputs = {
+        scriptId: run.reel.scriptId,
+        script: content,
+        tone: run.reel.tone,
+        language,
+        targetDuration: pacing.targetDuration,
+        sceneCountRange
+      };
+
+      // Reels of the same script in the same settings (e.g. another voice) reuse its plan
+      const lookupStartedAt = new Date();
+      const cached = run.reel.regeneratePlan ? null : await analysisStore.findCached(inputs);
+      await run.events.record({
+        type: 'cache',
+        name: 'analysisCache.lookup',
+        outcome: 'succeeded',
+        startedAt: lookupStartedAt,
+        endedAt: new Date(),
+        details: {
+          result: run.reel.regeneratePlan ? 'bypassed' : cached ? 'hit' : 'miss',
+          cacheKey: getAnalysisCacheKey(inputs),
+          cachedFrom: cached ? { scriptId: cached.scriptId, version: cached.version } : null
+        }
+      });
+
+      let analysis: VideoAnalysis;
+      let analysisVersion: number;
+      if (cached) {
+        console.log(`♻️ Reusing analysis version ${cached.version} of script ${cached.scriptId}`);
+        analysis = cached.analysis;
+        await analysisStore.recordHit(inputs);
+        // Versions of the reel's own script are referenced as they are, others are copied over
+        analysisVersion = cached.scriptId === inputs.scriptId
+          ? cached.version
+          : await analysisStore.save(analysis, inputs, { scriptId: cached.scriptId, version: cached.version });
+      } else {
+        analysis = await run.events.trackProviderCall(
+          'llm.analyzeScript',
+          {
+            provider: 'llm',
+            details: { tone: run.reel.tone, targetDuration: pacing.targetDuration, language: language.code },
+            describe: result => ({ sceneCount: result.scenes.length, ...result.planner })
+          },
+          () => videoAnalysis.analyzeScript(run.reel.scriptId, run.reel.tone, pacing, language, run.signal)
+        );
+        console.log('✅ Script analysis complete:', analysis);
+        // Keep the full plan, so the render can be traced back to it and later reels can reuse it
+        analysisVersion = await analysisStore.save(analysis, inputs);
+      }
+
+      // The stored version keeps the model's style; sensitive stories render with the restrained one
+      const { analysis: styled, override } = applySensitivityProfile(analysis);
+      if (override) {
+        console.log(`🕊️ Restrained style for a ${override.level} story:`, override);
+      }
+
+      await admin.firestore().collection('aiReels').doc(run.reelId).update({
+        analysisVersion,
+        sensitivity: override ?? FieldValue.delete(),
+        // Used up: a later retry reuses the new plan (now the cached one) unless it asks again
+        regeneratePlan: FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp()
+      });
+      run.analysis = styled;
+      return { analysis: await run.checkpoints.saveJson('analysis.json', styled) };
+    }
+  },
+  {
+    stage: 'media',
+    status: 'gatheringVisuals',
+    run: async (run) => {
+      console.log('🎬 Gathering visuals...');
+      const analysis = await run.getAnalysis();
+      const progress = new ProgressReporter(
+        run.reelId,
+        getProgressForStatus('gatheringVisuals'),
+        getProgressForStatus('generatingVoiceover')
+      );
+      const sceneCount = analysis.scenes.length;
+      // Scores candidates against the plan's theme and the clips chosen so far
+      const ffmpegService = new FFmpegService(run.workspace);
+      const coherence = new VisualCoherence(
+        analysis,
+        (mediaPath, type) => ffmpegService.getAverageColor(mediaPath, type)
+      );
+      const sceneMedia: SceneMedia[] = [];
+      for (const [index, scene] of analysis.scenes.entries()) {
+        run.cancellation.throwIfCancelled();
+        // Downloads take most of the stage, the checkpoint uploads and music the rest
+        progress.report(0.8 * index / sceneCount, `Downloading media for scene ${index + 1} of ${sceneCount}`);
+        console.log('🔍 Fetching media for scene:', scene);
+        try {
+          // Try Pexels first
+          const media = await run.events.trackProviderCall(
+            'pexels.search',
+            describeMediaSearchCall('pexels', index),
+            () => pexels.fetchMediaForScene(scene, run.workspace, coherence, run.signal)
+          );
+          if (media) {
+            sceneMedia.push(media);
+            continue;
+          }
+        } catch (pexelsError) {
+          run.cancellation.throwIfCancelled();
+          console.log('Pexels search failed, falling back to Pixabay:', pexelsError);
+          try {
+            // Fallback to Pixabay
+            const media = await run.events.trackProviderCall(
+              'pixabay.search',
+              describeMediaSearchCall('pixabay', index),
+              () => pixabay.fetchMediaForScene(scene, run.workspace, coherence, run.signal)
+            );
+            if (media) {
+              sceneMedia.push(media);
+            }
+          } catch (pixabayError) {
+            run.cancellation.throwIfCancelled();
+            if (scene.textCard) {
+              // Text cards do without a background image
+              console.log('⚠️ No background image for text card, using a solid color:', pixabayError);
+              sceneMedia.push({ primary: [], background: [], overlays: [] });
+              continue;
+            }
+            console.error('Both Pexels and Pixabay search failed:', pixabayError);
+            const message = `Failed to fetch media for scene: ${scene.description}`;
+            // An auth or quota failure of either provider says more about what went wrong than an empty search
+            if (!(pixabayError instanceof NoMediaFoundError)) {
+              throw toProviderError(pixabayError, 'pixabay', message);
+            }
+            if (pexelsError instanceof ProviderAuthError || pexelsError instanceof ProviderQuotaError) {
+              throw pexelsError;
+            }
+            throw new NoMediaFoundError(message, pixabayError.search);
+          }
+        }
+      }
+      console.log('✅ All scene media gathered');
+      progress.report(0.8, 'Saving scene media');
+
+      // Keep a copy of every downloaded clip for the render tasks and for retries
+      for (let i = 0; i < sceneMedia.length; i++) {
+        for (let j = 0; j < sceneMedia[i].primary.length; j++) {
+          const item = sceneMedia[i].primary[j];
+          if (item.localPath) {
+            item.storagePath = await run.checkpoints.saveFile(
+              item.localPath,
+              `media/scene-${i}-${j}${path.extname(item.localPath)}`
+            );
+          }
+        }
+      }
+      const artifacts: Record<string, string> = {
+        sceneMedia: await run.checkpoints.saveJson('sceneMedia.json', sceneMedia)
+      };
+
+      const sensitivity = analysis.contextAnalysis.sensitivity?.level ?? 'none';
+      let backgroundMusicPath: string | null = null;
+      if (sensitivity === 'tragic') {
+        console.log('🔇 Skipping background music for a tragic story');
+      } else {
+        console.log('🎵 Fetching background music...');
+        try {
+          console.log('🎵 Starting background music fetch with:', {
+            tone: run.reel.tone,
+            mood: analysis.contextAnalysis.mood,
+            sensitivity
+          });
+
+          backgroundMusicPath = await fetchAndDownloadMusic(
+            run.reel.tone,
+            analysis.contextAnalysis.mood,
+            getReelPacing(run.reel.targetDuration, run.reel.sceneCountRange).maxDuration,
+            run.workspace,
+            run.events,
+            sensitivity === 'sensitive',
+            run.signal
+          );
+
+          if (backgroundMusicPath) {
+            console.log('✅ Successfully downloaded background music to:', backgroundMusicPath);
+          } else {
+            console.warn('⚠️ No background music was found or downloaded');
+          }
+        } catch (error) {
+          run.cancellation.throwIfCancelled();
+          console.error('❌ Failed to fetch background music:', error);
+          // Log additional error details if available
+          if (error instanceof Error) {
+            console.error('Error details:', {
+              message: error.message,
+              stack: error.stack
+            });
+          }
+          // Continue without background music
+          console.log('⚠️ Proceeding without background music');
+        }
+      }
+
+      if (backgroundMusicPath) {
+        artifacts.music = await run.checkpoints.saveFile(backgroundMusicPath, 'music.mp3');
+      }
+      await progress.flush();
+      return artifacts;
+    }
+  },
+  {
+    stage: 'storyboard',
+    status: 'gatheringVisuals',
+    when: reel => !!reel.planOnly,
+    run: async (run) => {
+      console.log('🗂 Building storyboard for review...');
+      const analysis = await run.getAnalysis();
+      const ffmpegService = new FFmpegService(run.workspace);
+      const bucket = admin.storage().bucket();
+      const scenes: StoryboardScene[] = [];
+      for (const [index, scene] of analysis.scenes.entries()) {
+        run.cancellation.throwIfCancelled();
+        const media = await run.getSceneMedia(index);
+        let thumbnailPath: string;
+        if (scene.textCard) {
+          // Preview the card itself, from a short render of the scene
+          const previewPath = await renderTextCard(run, ffmpegService, { ...scene, duration: 2 }, media, index);
+          thumbnailPath = await ffmpegService.renderStoryboardThumbnail(previewPath, 'video', index, run.signal);
+          run.workspace.removeFile(previewPath);
+        } else {
+          const primary = media.primary[0];
+          if (!primary?.localPath) {
+            throw new Error(`Missing media for scene ${index}`);
+          }
+          thumbnailPath = await ffmpegService.renderStoryboardThumbnail(
+            primary.localPath,
+            primary.type,
+            index,
+            run.signal
+          );
+        }
+        const thumbnailURL = await uploadToStorage(
+          bucket,
+          thumbnailPath,
+          `users/${run.reel.userId}/reels/${run.reelId}/storyboard/scene-${index}.jpg`,
+          'image/jpeg'
+        );
+
+        scenes.push({
+          index,
+          description: scene.description,
+          duration: scene.duration,
+          keywords: scene.primaryKeywords,
+          mood: scene.mood,
+          visualType: scene.visualType,
+          transition: scene.transition.type,
+          effect: scene.effect.type,
+          provider: media.search?.provider,
+          media: media.primary.map(item => ({ type: item.type, url: item.url })),
+          thumbnailURL
+        });
+      }
+
+      await admin.firestore().collection('aiReels').doc(run.reelId).update({
+        storyboard: {
+          scenes,
+          backgroundMusic: !!run.checkpoints.getArtifact('media', 'music'),
+          createdAt: FieldValue.serverTimestamp()
+        },
+        updatedAt: FieldValue.serverTimestamp()
+      });
+      await updateReelStatus(run.reelId, 'awaitingApproval');
+      console.log('✅ Storyboard ready, waiting for approval');
+
+      // approveStoryboard checkpoints this stage and continues the pipeline
+      return null;
+    }
+  },
+  {
+    stage: 'narration',
+    status: 'generatingVoiceover',
+    run: async (run) => {
+      console.log('🎙 Starting voiceover generation...');
+      const { content: scriptContent, language } = await run.getScript();
+      console.log('📝 Retrieved script content:', { language: language.code, scriptContent });
+      const lexicon = await pronunciationStore.getLexicon(run.reel.userId, language);
+      const { audioPath: voiceoverPath, words: alignedWords } = await run.events.trackProviderCall(
+        'elevenlabs.voiceover',
+        {
+          provider: 'elevenlabs',
+          details: {
+            voiceId: run.reel.voiceId,
+            characters: scriptContent.length,
+            language: language.code,
+            pronunciations: lexicon.length
+          },
+          describe: result => ({
+            alignedWords: result.words.length,
+            chunks: result.chunks,
+            cacheKey: result.cacheKey,
+            cached: result.cached
+          })
+        },
+        () => elevenLabs.generateVoiceover(
+          scriptContent,
+          run.reel.voiceId,
+          run.reel.tone,
+          run.workspace,
+          lexicon,
+          run.signal
+        )
+      );
+      console.log('✅ Voiceover generated:', voiceoverPath);
+      const voiceover = await run.checkpoints.saveFile(voiceoverPath, 'voiceover.mp3');
+
+      console.log('📺 Generating captions...');
+      const whisper = new WhisperService(run.reel.tone, run.workspace, language);
+      // The voiceover's alignment times the script's own words; transcribe only when it is missing
+      const { captionsPath, words } = alignedWords.length > 0
+        ? { captionsPath: await whisper.createCaptions(alignedWords), words: alignedWords }
+        : await run.events.trackProviderCall(
+          'openai.transcribe',
+          { provider: 'openai', describe: result => ({ words: result.words.length }) },
+          () => whisper.generateCaptions(voiceoverPath, run.signal)
+        );
+      console.log('✅ Captions generated:', captionsPath);
+      const captions = await run.checkpoints.saveFile(captionsPath, 'captions.ass');
+
+      // Fix scene timings now, so per-scene renders agree on them. Scenes start
+      // when their narration is spoken; plans without narration are scaled instead.
+      const analysis = await run.getAnalysis();
+      const ffmpegService = new FFmpegService(run.workspace);
+      const voiceoverDuration = await ffmpegService.getVoiceoverDuration(voiceoverPath);
+      const alignment = alignScenesToNarration(analysis.scenes, cleanScript(scriptContent), words, voiceoverDuration);
+      if (!alignment.aligned) {
+        console.log(`Cannot align scenes to the narration: ${alignment.reason}`);
+      }
+      const timeline = alignment.aligned
+        ? alignment.scenes
+        : await ffmpegService.fitScenesToVoiceover(analysis.scenes, voiceoverPath);
+      console.log(alignment.aligned ? '🎯 Aligned scenes to the narration:' : '📏 Scaled scenes to the voiceover:',
+        timeline.map(scene => ({ start: scene.startTime, duration: scene.duration })));
+
+      return {
+        voiceover,
+        captions,
+        timeline: await run.checkpoints.saveJson('timeline.json', timeline)
+      };
+    }
+  },
+  {
+    stage: 'render',
+    status: 'assemblingVideo',
+    run: async (run) => {
+      const timeline = await run.getTimeline();
+
+      if (run.task.sceneIndex === undefined) {
+        // Fan out one task per scene that has not been rendered yet
+        const rendered = run.reel.sceneRenders ?? {};
+        const missing = timeline.map((_, index) => index).filter(index => !rendered[index]);
+        if (missing.length === 0) {
+          return rendered;
+        }
+        console.log(`🎞 Dispatching render tasks for scenes:`, missing);
+        await Promise.all(missing.map(sceneIndex => enqueueStage({
+          reelId: run.reelId,
+          stage: 'render',
+          sceneIndex
+        })));
+        return null;
+      }
+
+      const index = run.task.sceneIndex;
+      console.log(`🎞 Rendering scene ${index + 1}/${timeline.length}...`);
+      const progress = new ProgressReporter(run.reelId, RENDER_PROGRESS_START, MUX_PROGRESS_START, {
+        sceneIndex: index,
+        sceneCount: timeline.length
+      });
+      const ffmpegService = new FFmpegService(run.workspace);
+      const scene = timeline[index];
+      const media = await run.getSceneMedia(index);
+      const renderOptions: AssembleVideoOptions = {
+        signal: run.signal,
+        onProgress: fraction => progress.report(fraction)
+      };
+      // Rendered a little longer than the scene, to crossfade into the next one
+      const clip = { ...scene, duration: getClipDuration(timeline, index) };
+      let renderPath: string;
+      if (scene.textCard) {
+        renderPath = await renderTextCard(run, ffmpegService, clip, media, index, renderOptions);
+      } else {
+        let graphicsPath: string | undefined;
+        if (scene.lowerThird) {
+          const { language } = await run.getScript();
+          graphicsPath = new GraphicsService(run.reel.tone, run.workspace, language)
+            .createLowerThird(scene.lowerThird, scene.duration, index) ?? undefined;
+        }
+        renderPath = await ffmpegService.renderScene(clip, media, index, { ...renderOptions, graphicsPath });
+      }
+      const storagePath = await run.checkpoints.saveFile(renderPath, `renders/scene-${index}.mp4`);
+      // The task that records the last missing scene also checkpoints the stage
+      await run.checkpoints.recordSceneRender(index, storagePath, timeline.length);
+      progress.report(1);
+      await progress.flush();
+      return null;
+    }
+  },
+  {
+    stage: 'mux',
+    status: 'assemblingVideo',
+    run: async (run) => {
+      console.log('🎥 Starting final mux...');
+      const timeline = await run.getTimeline();
+      const scenePaths: string[] = [];
+      for (let i = 0; i < timeline.length; i++) {
+        scenePaths.push(await run.checkpoints.restoreFile(run.requireArtifact('render', String(i))));
+      }
+
+      const progress = new ProgressReporter(run.reelId, MUX_PROGRESS_START, MUX_PROGRESS_END);
+      const ffmpegService = new FFmpegService(run.workspace);
+      const videoPath = await ffmpegService.muxVideo(
+        scenePaths,
+        timeline,
+        await run.getVoiceoverPath(),
+        await run.getCaptionsPath(),
+        await run.getBackgroundMusicPath(),
+        {
+          signal: run.signal,
+          onProgress: fraction => progress.report(fraction, 'Adding transitions, audio and captions')
+        }
+      );
+      await progress.flush();
+      console.log('✅ Video assembled:', videoPath);
+      run.videoPath = videoPath;
+      return { video: await run.checkpoints.saveFile(videoPath, 'video.mp4') };
+    }
+  },
+  {
+    stage: 'upload',
+    status: 'finalizing',
+    run: async (run) => {
+      console.log('🖼 Generating thumbnail...');
+      const videoPath = await run.getVideoPath();
+      const thumbnailPath = await generateThumbnail(videoPath);
+      run.workspace.trackFile(thumbnailPath);
+      console.log('✅ Thumbnail generated:', thumbnailPath);
+
+      console.log('⬆️ Starting upload process...');
+      const bucket = admin.storage().bucket();
+      const [videoURL, thumbnailURL] = await Promise.all([
+        uploadToStorage(bucket, videoPath, `users/${run.reel.userId}/reels/${run.reelId}/final.mp4`, 'video/mp4'),
+        uploadToStorage(bucket, thumbnailPath, `users/${run.reel.userId}/reels/${run.reelId}/thumbnail.jpg`, 'image/jpeg')
+      ]);
+
+      // The URLs go in with the status, since the app treats a completed reel as playable
+      console.log('📝 Updating reel document with URLs...');
+      await updateReelStatus(run.reelId, 'completed', undefined, { videoURL, thumbnailURL });
+      return {};
+    }
+  }
+];
+
+function getFirstIncompleteStage(
+  reel: AiReel,
+  isComplete: (stage: PipelineStage) => boolean
+): PipelineStage | null {
+  return STAGES.find(definition =>
+    (!definition.when || definition.when(reel)) && !isComplete(definition.stage)
+  )?.stage ?? null;
+}
+
+/**
+ * Starts (or resumes) generation of a reel by enqueueing its first stage
+ * without a checkpoint
+ * @param reelId - ID of the aiReels document
+ * @param reel - Current reel data, including checkpoints from earlier attempts
+ */
+export async function startReelPipeline(reelId: string, reel: AiReel): Promise<void> {
+  const stage = getFirstIncompleteStage(reel, candidate => !!reel.checkpoints?.[candidate]);
+  if (!stage) {
+    console.log(`Reel ${reelId} has no incomplete stages`);
+    return;
+  }
+
+  await updateReelStatus(reelId, 'processing');
+  // Start of this attempt, used to estimate the remaining time
+  await admin.firestore().collection('aiReels').doc(reelId).update({
+    processingStartedAt: FieldValue.serverTimestamp(),
+    etaSeconds: null,
+    watchdogRetries: FieldValue.delete() // A new attempt gets a fresh budget
+  });
+  await enqueueStage({ reelId, stage });
+}
+
+/**
+ * Re-enqueues the first incomplete stage of a reel whose task stopped without
+ * failing it, e.g. because its instance was killed. Unlike startReelPipeline
+ * this keeps the status and ETA of the running attempt.
+ * @param reelId - ID of the aiReels document
+ * @param reel - Current reel data
+ * @returns The stage that was enqueued, or null if every stage is complete
+ */
+export async function resumeReelPipeline(reelId: string, reel: AiReel): Promise<PipelineStage | null> {
+  const stage = getFirstIncompleteStage(reel, candidate => !!reel.checkpoints?.[candidate]);
+  if (stage) {
+    // A stalled render resumes through the dispatcher, which only re-renders missing scenes
+    await enqueueStage({ reelId, stage });
+  }
+  return stage;
+}
+
+/**
+ * Approves the storyboard of a plan-only reel and continues with the voiceover
+ * @param reelId - ID of the aiReels document
+ * @returns Whether the reel was awaiting approval
+ */
+export async function approveStoryboard(reelId: string): Promise<boolean> {
+  const reelRef = admin.firestore().collection('aiReels').doc(reelId);
+  const reel = await admin.firestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(reelRef);
+    const data = snapshot.data() as AiReel | undefined;
+    if (data?.status !== 'awaitingApproval') {
+      return null;
+    }
+
+    const processingStartedAt = data.processingStartedAt as unknown as Timestamp | undefined;
+    const storyboardReadyAt = data.storyboard?.createdAt as unknown as Timestamp | undefined;
+    const updates: UpdateData<DocumentData> = {
+      status: 'processing',
+      'checkpoints.storyboard': {
+        artifacts: {},
+        completedAt: FieldValue.serverTimestamp()
+      },
+      approvedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp()
+    };
+    if (processingStartedAt && storyboardReadyAt) {
+      // Leave the time spent waiting for approval out of the ETA
+      updates.processingStartedAt = Timestamp.fromMillis(
+        Date.now() - (storyboardReadyAt.toMillis() - processingStartedAt.toMillis())
+      );
+    }
+    transaction.update(reelRef, updates);
+    return data;
+  });
+
+  if (!reel) {
+    return false;
+  }
+
+  const checkpoints = { ...reel.checkpoints, storyboard: { artifacts: {}, completedAt: new Date() } };
+  const stage = getFirstIncompleteStage(reel, candidate => !!checkpoints[candidate]);
+  console.log('👍 Storyboard approved:', { reelId, nextStage: stage });
+  if (stage) {
+    await enqueueStage({ reelId, stage });
+  }
+  return true;
+}
+
+/**
+ * Deletes the checkpointed work of a reel that no pipeline task is running for,
+ * e.g. a storyboard that was cancelled instead of approved
+ * @param reelId - ID of the aiReels document
+ * @param reel - Current reel data
+ */
+export async function discardPipelineWork(reelId: string, reel: AiReel): Promise<void> {
+  const workspace = ReelWorkspace.create(reelId);
+  try {
+    await new CheckpointStore(reelId, reel.userId, reel.checkpoints ?? {}, workspace).clear();
+  } finally {
+    workspace.dispose();
+  }
+}
+
+/**
+ * Reads the reel of a stage task, or returns null if the task should be
+ * dropped because the reel is gone or finished
+ * @param reelId - ID of the aiReels document
+ */
+async function getRunnableReel(reelId: string): Promise<AiReel | null> {
+  const reelDoc = await admin.firestore().collection('aiReels').doc(reelId).get();
+  if (!reelDoc.exists) {
+    console.error(`❌ Reel ${reelId} not found, dropping stage task`);
+    return null;
+  }
+  const reel = reelDoc.data() as AiReel;
+  if (['completed', 'failed', 'cancelled'].includes(reel.status)) {
+    console.log(`⏭ Reel ${reelId} is ${reel.status}, dropping stage task`);
+    if (reel.status === 'cancelled') {
+      // Cancelled between tasks: nothing else cleans up, and cancelled reels cannot be retried
+      await discardPipelineWork(reelId, reel);
+    }
+    return null;
+  }
+  return reel;
+}
+
+/**
+ * Runs a single pipeline stage in its own invocation and enqueues the next one
+ * @param task - Stage to run (and scene, for per-scene renders)
+ * @param delivery - Id of the queued task and how often the queue already retried it
+ */
+export async function runStageTask(
+  task: StageTask,
+  delivery: TaskDelivery = { taskId: randomUUID(), retryCount: 0 }
+): Promise<void> {
+  const { reelId } = task;
+  const { retryCount } = delivery;
+  console.log('🚀 Running pipeline stage:', task);
+
+  if (!await getRunnableReel(reelId)) {
+    return;
+  }
+
+  const definition = STAGES.find(candidate => candidate.stage === task.stage);
+  if (!definition) {
+    console.error(`❌ Unknown pipeline stage: ${task.stage}`);
+    return;
+  }
+
+  const events = new ReelEventLog(reelId, { stage: task.stage, sceneIndex: task.sceneIndex });
+  const lease = await ProcessingLease.acquire(reelId, getLeaseKey(task), delivery);
+  if (!lease) {
+    // A duplicate delivery; the holder's own retries resume the task if it dies
+    console.log(`⏭ Another worker is running ${getLeaseKey(task)} of reel ${reelId}, dropping stage task`);
+    const now = new Date();
+    await events.record({
+      type: 'stage',
+      name: task.stage,
+      outcome: 'skipped',
+      attempt: retryCount + 1,
+      startedAt: now,
+      endedAt: now,
+      details: { reason: 'Lease held by another worker' }
+    });
+    return;
+  }
+
+  // Read again under the lease: a late duplicate must see the checkpoints of
+  // the run that finished before it, and not redo that stage
+  const reel = await getRunnableReel(reelId);
+  if (!reel) {
+    await lease.release();
+    return;
+  }
+
+  // Every task gets its own workspace so concurrent reels never share files
+  const workspace = ReelWorkspace.create(reelId);
+  const checkpoints = new CheckpointStore(reelId, reel.userId, reel.checkpoints ?? {}, workspace);
+  const cancellation = new CancellationWatcher(reelId);
+  const run = new PipelineRun(task, reel, checkpoints, workspace, cancellation, events);
+
+  const startedAt = new Date();
+  const recordStage = (outcome: ReelEventOutcome, details?: Record<string, unknown>, error?: unknown) =>
+    events.record({
+      type: 'stage',
+      name: task.stage,
+      outcome,
+      attempt: retryCount + 1,
+      startedAt,
+      endedAt: new Date(),
+      details: { ...details, leaseAttempt: lease.attempt, leaseTakenOver: lease.tookOver || undefined },
+      error: error === undefined ? undefined : serializeError(error)
+    });
+
+  try {
+    cancellation.throwIfCancelled();
+    if (checkpoints.isComplete(task.stage)) {
+      // Duplicate delivery; whoever completed the stage already moved on
+      console.log(`⏭ Skipping ${task.stage} stage, already checkpointed`);
+      await recordStage('skipped', { reason: 'Stage already checkpointed' });
+      return;
+    }
+
+    if (reel.status !== definition.status) {
+      await updateReelStatus(reelId, definition.status);
+    }
+
+    const artifacts = await definition.run(run);
+    if (artifacts) {
+      await checkpoints.complete(task.stage, artifacts);
+    }
+    await recordStage('succeeded', {
+      artifacts: artifacts ? Object.keys(artifacts) : [],
+      stageComplete: checkpoints.isComplete(task.stage)
+    });
+    if (!checkpoints.isComplete(task.stage)) {
+      return;
+    }
+
+    const nextStage = getFirstIncompleteStage(reel, stage => checkpoints.isComplete(stage));
+    if (nextStage) {
+      await enqueueStage({ reelId, stage: nextStage });
+      return;
+    }
+
+    // The reel is done, so intermediate artifacts are no longer needed
+    await checkpoints.clear();
+    console.log('🎉 Video generation completed successfully!');
+  } catch (error: unknown) {
+    // Killed processes and aborted requests surface as ordinary errors
+    if (error instanceof ReelCancelledError || cancellation.isCancelled) {
+      console.log(`🛑 Reel ${reelId} was cancelled, stopped generation`);
+      await recordStage('cancelled');
+      await checkpoints.clear();
+      return;
+    }
+
+    console.error(`❌ Error in ${task.stage} stage:`, error);
+    await recordStage(getFailureOutcome(error), undefined, error);
+    await handleError(reelId, error);
+  } finally {
+    // Local files go away either way; checkpointed artifacts stay in Storage for a retry
+    cancellation.dispose();
+    workspace.dispose();
+    await lease.release();
+  }
+}
+
+registerLocalStageHandler(task => runStageTask(task));
+
+// Renders an overlay scene's text card in the reel's tone and language
+async function renderTextCard(
+  run: PipelineRun,
+  ffmpegService: FFmpegService,
+  scene: VideoScene,
+  media: SceneMedia,
+  index: number,
+  options: AssembleVideoOptions = { signal: run.signal }
+): Promise<string> {
+  const { language } = await run.getScript();
+  const graphics = new GraphicsService(run.reel.tone, run.workspace, language);
+  const cardPath = graphics.createTextCard(scene.textCard!, scene.duration, index);
+  try {
+    return await ffmpegService.renderTextCardScene(scene, media, cardPath, graphics.getBrandColor(), index, options);
+  } finally {
+    run.workspace.removeFile(cardPath);
+  }
+}
+
+// Event log options for a stock media search, recording the keywords it tried
+function describeMediaSearchCall(provider: 'pexels' | 'pixabay', sceneIndex: number) {
+  const describeSearch = (search?: MediaSearchInfo) => search ? {
+    keywordsTried: search.keywordsTried.map(keywords => keywords.join(' ')),
+    matchedKeywords: search.matchedKeywords?.join(' ') ?? null
+  } : {};
+
+  return {
+    provider,
+    details: { scene: sceneIndex },
+    describe: (media: SceneMedia) => ({
+      ...describeSearch(media.search),
+      media: media.primary.map(item => item.url),
+      coherenceScore: media.primary[0]?.coherenceScore ?? null
+    }),
+    describeError: (error: unknown) => error instanceof NoMediaFoundError ? describeSearch(error.search) : undefined
+  };
+}
+
+// Helper function to fetch and download background music
+async function fetchAndDownloadMusic(
+  tone: ReelTone,
+  mood: string,
+  minDuration: number,
+  workspace: ReelWorkspace,
+  events: ReelEventLog,
+  restrained: boolean,
+  signal?: AbortSignal
+): Promise<string | null> {
+  let retryCount = 0;
+  const maxRetries = 3;
+
+  while (retryCount < maxRetries) {
+    try {
+      const music = await events.trackProviderCall(
+        'jamendo.music',
+        {
+          provider: 'jamendo',
+          attempt: retryCount + 1,
+          details: { tone, mood, minDuration, restrained },
+          describe: track => ({
+            trackId: track.trackId,
+            trackName: track.name,
+            tags: track.tags,
+            tagsTried: track.tagsTried.map(tags => tags.join(' '))
+          })
+        },
+        () => jamendo.fetchBackgroundMusic(tone, mood, minDuration, restrained)
+      );
+      if (!music?.url) {
+        console.log('❌ No valid music URL found');
+        return null;
+      }
+
+      const musicPath = workspace.createTempFilePath('bgm', '.mp3');
+      
+      const musicResponse = await axios({
+        method: 'get',
+        url: music.url,
+        responseType: 'stream',
+        signal
+      });
+
+      await new Promise<void>((resolve, reject) => {
+        const writer = fs.createWriteStream(musicPath);
+        musicResponse.data.on('error', reject);
+        musicResponse.data.pipe(writer);
+        writer.on('finish', resolve);
+        writer.on('error', (error) => {
+          workspace.removeFile(musicPath);
+          reject(error);
+        });
+      });
+
+      return musicPath;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new ReelCancelledError();
+      }
+      console.error(`❌ Error fetching background music (attempt ${retryCount + 1}/${maxRetries}):`, error);
+      retryCount++;
+      
+      if (retryCount === maxRetries) {
+        console.error('❌ All attempts to fetch background music failed');
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+// Helper function to generate thumbnail
+async function generateThumbnail(videoPath: string): Promise<string> {
+  console.log('Starting thumbnail generation for video:', videoPath);
+  
+  // First verify the video file exists and has a video stream
+  if (!fs.existsSync(videoPath)) {
+    console.error('Video file not found at path:', videoPath);
+    throw new Error('Video file not found for thumbnail generation');
+  }
+  console.log('✅ Video file exists');
+
+  // Probe the video file to verify it has a video stream
+  await new Promise<void>((resolve, reject) => {
+    console.log('Probing video file for streams...');
+    ffmpeg.ffprobe(videoPath, (err, metadata) => {
+      if (err) {
+        console.error('FFprobe error:', err);
+        reject(new Error(`Failed to probe video for thumbnail: ${err.message}`));
+        return;
+      }
+      
+      console.log('Video metadata:', JSON.stringify(metadata, null, 2));
+      const videoStream = metadata.streams.find(s => s.codec_type === 'video');
+      if (!videoStream) {
+        console.error('No video stream found in metadata');
+        reject(new Error('No video stream found in the input file'));
+        return;
+      }
+      
+      console.log('✅ Found video stream:', {
+        codec: videoStream.codec_name,
+        resolution: `${videoStream.width}x${videoStream.height}`,
+        duration: videoStream.duration
+      });
+      
+      resolve();
+    });
+  });
+
+  // Properly separate path components for FFmpeg
+  const folder = path.dirname(videoPath);
+  const baseName = path.basename(videoPath, '.mp4');
+  const filename = `${baseName}-thumb.jpg`;
+  const thumbnailPath = path.join(folder, filename);
+  
+  console.log('Generating thumbnail at:', thumbnailPath);
+  
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(videoPath)
+      .screenshots({
+        timestamps: ['50%'],
+        folder,             // specify the output folder
+        filename,           // specify the filename pattern
+        size: '1280x720'
+      })
+      .on('start', (cmd) => {
+        console.log('Started FFmpeg with command:', cmd);
+      })
+      .on('end', () => {
+        if (fs.existsSync(thumbnailPath) && fs.statSync(thumbnailPath).size > 0) {
+          console.log('✅ Thumbnail generated successfully');
+          resolve();
+        } else {
+          reject(new Error('Thumbnail file is missing or empty'));
+        }
+      })
+      .on('error', (err) => {
+        console.error('FFmpeg thumbnail generation error:', err);
+        reject(new Error(`Failed to generate thumbnail: ${err.message}`));
+      });
+  });
+
+  return thumbnailPath;
+}
+
+// Helper function to upload to storage
+async function uploadToStorage(
+  bucket: Bucket,
+  filePath: string,
+  destination: string,
+  contentType: string
+): Promise<string> {
+  await bucket.upload(filePath, {
+    destination,
+    metadata: { contentType }
+  });
+  await bucket.file(destination).makePublic();
+  return getPublicUrl(bucket, destination);
+}
+
+function getPublicUrl(bucket: Bucket, destination: string): string {
+  return `https://storage.googleapis.com/${bucket.name}/${destination}`;
+}
@@ -0,0 +1,51 @@
+import { getFunctions } from 'firebase-admin/functions';
+import { StageTask } from '../types';
+
+// Name of the task queue function that runs pipeline stages (see index.ts)
+export const STAGE_QUEUE_FUNCTION = 'processReelStageV2';
+const STAGE_QUEUE_REGION = 'us-central1';
+
+type StageHandler = (task: StageTask) => Promise<void>;
+
+let localHandler: StageHandler | null = null;
+let localQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Registers the in-process handler used instead of Cloud Tasks in the emulator
+ * @param handler - Function that runs a single stage task
+ */
+export function registerLocalStageHandler(handler: StageHandler): void {
+  localHandler = handler;
+}
+
+function isEmulator(): boolean {
+  return process.env.FUNCTIONS_EMULATOR === 'true';
+}
+
+/**
+ * Dispatches a pipeline stage to run in its own function invocation. In the
+ * emulator tasks run one after another in-process, so local development does
+ * not need a Cloud Tasks queue.
+ * @param task - Stage to run
+ */
+export async function enqueueStage(task: StageTask): Promise<void> {
+  console.log('📨 Enqueueing pipeline stage:', task);
+
+  if (isEmulator()) {
+    if (!localHandler) {
+      throw new Error('No local stage handler registered');
+    }
+    const handler = localHandler;
+    localQueue = localQueue
+      .then(() => handler(task))
+      .catch((error) => console.error('❌ Local stage task failed:', { task, error }));
+    return;
+  }
+
+  const queue = getFunctions().taskQueue<StageTask>(
+    `locations/${STAGE_QUEUE_REGION}/functions/${STAGE_QUEUE_FUNCTION}`
+  );
+  await queue.enqueue(task, {
+    dispatchDeadlineSeconds: 60 * 30 // Match the stage function timeout
+  });
+}
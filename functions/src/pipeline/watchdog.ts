@@ -0,0 +1,125 @@
+import * as admin from 'firebase-admin';
+import { DocumentData, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { AiReel, ReelStatus } from '../types';
+import { updateReelStatus, ReelTimeoutError } from '../utils';
+import { discardPipelineWork, resumeReelPipeline } from './reelPipeline';
+
+// How long a reel may sit in a status without its document being updated.
+// Progress reporting touches updatedAt every few seconds while a stage works,
+// so these only need to cover stages that report progress rarely.
+// awaitingApproval is missing on purpose: it waits for the user.
+const STALL_THRESHOLDS_MINUTES: Partial<Record<ReelStatus, number>> = {
+  processing: 15,
+  analyzing: 15,
+  gatheringVisuals: 20,
+  generatingVoiceover: 20,
+  assemblingVideo: 40, // Longer than a stage task's timeout
+  finalizing: 20
+};
+
+// How often a stalled reel is re-enqueued before it is failed
+const MAX_WATCHDOG_RETRIES = 2;
+
+/**
+ * Finds reels whose pipeline stopped without failing them (e.g. an instance
+ * killed mid-render) and either re-enqueues their current stage or, once the
+ * retry budget is spent, fails them with a TIMEOUT error and deletes their
+ * partial Storage objects.
+ */
+export async function recoverStuckReels(): Promise<void> {
+  const now = Date.now();
+
+  for (const [status, minutes] of Object.entries(STALL_THRESHOLDS_MINUTES)) {
+    const cutoff = Timestamp.fromMillis(now - (minutes as number) * 60 * 1000);
+    const snapshot = await admin.firestore()
+      .collection('aiReels')
+      .where('status', '==', status)
+      .where('updatedAt', '<', cutoff)
+      .get();
+
+    for (const doc of snapshot.docs) {
+      try {
+        await recoverReel(doc.id, status as ReelStatus, cutoff);
+      } catch (error) {
+        // One broken reel must not keep the others stuck
+        console.error(`❌ Failed to recover stuck reel ${doc.id}:`, error);
+      }
+    }
+  }
+}
+
+export type WatchdogAction = 'resume' | 'fail';
+
+/**
+ * Decides what to do with a reel the stall query returned, as read in the
+ * claim transaction
+ * @param data - Current reel document
+ * @param status - Status the reel was stalled in
+ * @param cutoff - Reels updated since the cutoff are no longer stalled
+ * @returns 'resume' while retries are left, 'fail' once they are spent, or
+ * null if the reel moved on in the meantime
+ */
+export function chooseRecovery(
+  data: DocumentData | undefined,
+  status: ReelStatus,
+  cutoff: Timestamp
+): WatchdogAction | null {
+  const updatedAt = data?.updatedAt as Timestamp | undefined;
+  if (!data || data.status !== status || (updatedAt && updatedAt.toMillis() >= cutoff.toMillis())) {
+    return null;
+  }
+  return (data.watchdogRetries ?? 0) < MAX_WATCHDOG_RETRIES ? 'resume' : 'fail';
+}
+
+async function recoverReel(reelId: string, status: ReelStatus, cutoff: Timestamp): Promise<void> {
+  const reelRef = admin.firestore().collection('aiReels').doc(reelId);
+
+  // Claim the reel in a transaction, so a pipeline that just moved on (or an
+  // overlapping watchdog run) is left alone
+  const claimed = await admin.firestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(reelRef);
+    const data = snapshot.data();
+    const action = chooseRecovery(data, status, cutoff);
+    if (!action) {
+      return null;
+    }
+
+    const retries: number = data?.watchdogRetries ?? 0;
+    if (action === 'resume') {
+      transaction.update(reelRef, {
+        watchdogRetries: retries + 1,
+        updatedAt: FieldValue.serverTimestamp()
+      });
+    }
+    return { reel: data as AiReel, retries, action };
+  });
+
+  if (!claimed) {
+    return;
+  }
+
+  const { reel, retries, action } = claimed;
+  if (action === 'resume') {
+    const stage = await resumeReelPipeline(reelId, reel);
+    console.log(`🐕 Re-enqueued stuck reel ${reelId}:`, { status, stage, attempt: retries + 1 });
+    return;
+  }
+
+  console.log(`🐕 Failing stuck reel ${reelId} after ${retries} watchdog retries:`, { status });
+  await updateReelStatus(
+    reelId,
+    'failed',
+    new ReelTimeoutError(`Reel stalled in ${status} after ${retries} watchdog retries`)
+  );
+  await discardPipelineWork(reelId, reel);
+  await deletePartialOutputs(reel.userId, reelId);
+}
+
+// Removes storyboard thumbnails and half-uploaded results of a failed reel
+async function deletePartialOutputs(userId: string, reelId: string): Promise<void> {
+  try {
+    await admin.storage().bucket().deleteFiles({ prefix: `users/${userId}/reels/${reelId}/` });
+  } catch (error) {
+    console.error(`Failed to delete partial outputs of reel ${reelId}:`, error);
+  }
+}
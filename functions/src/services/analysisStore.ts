@@ -0,0 +1,157 @@
+import * as admin from 'firebase-admin';
+import { FieldValue } from 'firebase-admin/firestore';
+import { createHash } from 'crypto';
+import { AnalysisVersion, ReelTone, SceneCountRange, VideoAnalysis } from '../types';
+import { LanguageConfig } from '../utils';
+import { PROMPT_VERSION } from './videoAnalysis';
+
+// What a plan was made from, stored with it so runs can be reproduced and compared
+export interface AnalysisInputs {
+  scriptId: string;
+  script: string; // Script content, stored as its hash
+  tone: ReelTone;
+  language: LanguageConfig;
+  targetDuration: number;
+  sceneCountRange?: SceneCountRange;
+}
+
+// Stored version an analysis was copied from when it came out of the cache
+export interface AnalysisSource {
+  scriptId: string;
+  version: number;
+}
+
+/**
+ * Hashes script content, so plans made from an edited script can be told apart
+ * @param script - Script content
+ */
+export function hashScript(script: string): string {
+  return createHash('sha256').update(script, 'utf8').digest('hex');
+}
+
+/**
+ * Key of the plans that can stand in for each other: same script content, same
+ * reel settings and same prompts. The voice is not part of it, so reels that
+ * only try another voice reuse the plan.
+ * @param inputs - Script and reel settings of the analysis
+ */
+export function getAnalysisCacheKey(inputs: AnalysisInputs): string {
+  const range = inputs.sceneCountRange ? `${inputs.sceneCountRange.min}-${inputs.sceneCountRange.max}` : '';
+  return createHash('sha256')
+    .update([
+      hashScript(inputs.script),
+      inputs.tone,
+      inputs.targetDuration,
+      inputs.language.code,
+      range,
+      PROMPT_VERSION
+    ].join('|'))
+    .digest('hex');
+}
+
+/**
+ * Keeps every generated analysis of a script as a numbered version in
+ * scriptAnalysis/{scriptId}/versions. The script's document holds the latest
+ * version number and its contextAnalysis.
+ */
+export class AnalysisStore {
+  private scriptRef(scriptId: string) {
+    return admin.firestore().collection('scriptAnalysis').doc(scriptId);
+  }
+
+  private cacheRef(cacheKey: string) {
+    return admin.firestore().collection('analysisCache').doc(cacheKey);
+  }
+
+  /**
+   * Looks up a stored analysis made for the same script content and settings
+   * @param inputs - Script and reel settings of the analysis
+   * @returns The cached version, or null on a miss
+   */
+  async findCached(inputs: AnalysisInputs): Promise<AnalysisVersion | null> {
+    const entry = await this.cacheRef(getAnalysisCacheKey(inputs)).get();
+    if (!entry.exists) {
+      return null;
+    }
+
+    const { scriptId, version } = entry.data() as AnalysisSource;
+    const stored = await this.scriptRef(scriptId).collection('versions').doc(String(version)).get();
+    if (!stored.exists) {
+      // The script's analyses were deleted with it
+      console.log(`Cached analysis ${scriptId}/${version} no longer exists`);
+      return null;
+    }
+    const data = stored.data()!;
+    return { ...data, createdAt: data.createdAt?.toDate?.() ?? data.createdAt } as AnalysisVersion;
+  }
+
+  /**
+   * Counts a reuse of a cached analysis. Failures are only logged, the counter is informational.
+   * @param inputs - Script and reel settings of the analysis
+   */
+  async recordHit(inputs: AnalysisInputs): Promise<void> {
+    try {
+      await this.cacheRef(getAnalysisCacheKey(inputs)).update({
+        hits: FieldValue.increment(1),
+        lastHitAt: FieldValue.serverTimestamp()
+      });
+    } catch (error) {
+      console.error('Failed to record analysis cache hit:', error);
+    }
+  }
+
+  /**
+   * Stores an analysis as the next version of its script. Freshly generated
+   * analyses also become the cached plan for their script content and settings.
+   * @param analysis - Validated analysis, with the planner that produced it
+   * @param inputs - Script and reel settings the analysis was made for
+   * @param cachedFrom - Stored version the analysis was reused from, if any
+   * @returns The new version number
+   */
+  async save(analysis: VideoAnalysis, inputs: AnalysisInputs, cachedFrom?: AnalysisSource): Promise<number> {
+    const scriptRef = this.scriptRef(inputs.scriptId);
+    // Firestore rejects undefined fields, which optional plan fields may hold
+    const storedAnalysis: VideoAnalysis = JSON.parse(JSON.stringify(analysis));
+
+    const version = await admin.firestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(scriptRef);
+      const next = (snapshot.data()?.latestVersion ?? 0) + 1;
+
+      const entry: Omit<AnalysisVersion, 'createdAt'> & { createdAt: FieldValue } = {
+        version: next,
+        scriptId: inputs.scriptId,
+        scriptHash: hashScript(inputs.script),
+        promptVersion: PROMPT_VERSION,
+        provider: analysis.planner?.provider ?? 'unknown',
+        model: analysis.planner?.model ?? 'unknown',
+        tone: inputs.tone,
+        language: inputs.language.code,
+        targetDuration: inputs.targetDuration,
+        analysis: storedAnalysis,
+        ...(cachedFrom ? { cachedFrom } : {}),
+        createdAt: FieldValue.serverTimestamp()
+      };
+      transaction.set(scriptRef.collection('versions').doc(String(next)), entry);
+      if (!cachedFrom) {
+        // A regenerated plan replaces the cached one, so later reels pick it up
+        transaction.set(this.cacheRef(getAnalysisCacheKey(inputs)), {
+          scriptId: inputs.scriptId,
+          version: next,
+          promptVersion: PROMPT_VERSION,
+          hits: 0,
+          createdAt: FieldValue.serverTimestamp()
+        });
+      }
+      transaction.set(scriptRef, {
+        contextAnalysis: storedAnalysis.contextAnalysis,
+        latestVersion: next,
+        ...(snapshot.exists ? {} : { createdAt: FieldValue.serverTimestamp() }),
+        updatedAt: FieldValue.serverTimestamp()
+      }, { merge: true });
+      return next;
+    });
+
+    console.log(`Stored analysis version ${version} of script ${inputs.scriptId}`);
+    return version;
+  }
+}
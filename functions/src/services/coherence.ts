@@ -0,0 +1,160 @@
+import { PixabayMedia, RgbColor, VideoAnalysis, VisualStyle } from '../types';
+
+type TimeOfDay = 'day' | 'night';
+
+// Samples the average color of a downloaded clip (see FFmpegService.getAverageColor)
+export type ColorSampler = (localPath: string, type: 'video' | 'image') => Promise<RgbColor | null>;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'over', 'under', 'about', 'that', 'this',
+  'shot', 'shots', 'footage', 'video', 'image', 'scene', 'scenes', 'style', 'visual', 'visuals'
+]);
+const ILLUSTRATION_WORDS = ['animation', 'animated', 'cartoon', 'illustration', 'vector', 'drawing', '3d', 'render', 'clipart'];
+const NIGHT_WORDS = ['night', 'nighttime', 'dark', 'evening', 'neon', 'moon', 'stars', 'midnight'];
+const DAY_WORDS = ['day', 'daytime', 'daylight', 'sunny', 'morning', 'noon', 'sunshine'];
+
+// Weights of the individual coherence signals; color only counts once a clip is downloaded
+const THEME_WEIGHT = 0.4;
+const STYLE_WEIGHT = 0.2;
+const TIME_OF_DAY_WEIGHT = 0.2;
+const COLOR_WEIGHT = 0.2;
+const MAX_COLOR_DISTANCE = Math.sqrt(3 * 255 * 255);
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Scores stock media candidates for visual coherence with the reel's
+ * mainVisualTheme and visualMotifs and with the clips already chosen for
+ * earlier scenes (live-action vs illustration, day vs night, color palette),
+ * so a reel does not jump between unrelated looks from scene to scene.
+ */
+export class VisualCoherence {
+  private readonly themeTokens: Set<string>;
+  private readonly chosen: PixabayMedia[] = [];
+
+  constructor(
+    analysis: Pick<VideoAnalysis, 'mainVisualTheme' | 'visualMotifs'>,
+    private readonly sampleColor: ColorSampler
+  ) {
+    this.themeTokens = new Set(tokenize([analysis.mainVisualTheme ?? '', ...(analysis.visualMotifs ?? [])].join(' ')));
+  }
+
+  /**
+   * Orders candidates by their coherence score, best first
+   * @param candidates - Media returned by a provider search
+   */
+  public rankCandidates(candidates: PixabayMedia[]): PixabayMedia[] {
+    return candidates
+      .map(candidate => ({ candidate, score: this.scoreCandidate(candidate) }))
+      .sort((a, b) => b.score - a.score)
+      .map(({ candidate, score }) => ({ ...candidate, coherenceScore: score }));
+  }
+
+  /**
+   * Picks the most coherent of several downloaded candidates, taking their
+   * colors into account, and remembers it for the following scenes
+   * @param candidates - Downloaded candidates with local paths
+   */
+  public async pickBest(candidates: PixabayMedia[]): Promise<PixabayMedia> {
+    if (candidates.length === 0) {
+      throw new Error('No candidates to choose from');
+    }
+
+    const scored: PixabayMedia[] = [];
+    for (const candidate of candidates) {
+      const averageColor = candidate.localPath
+        ? await this.sampleColor(candidate.localPath, candidate.type).catch(() => null)
+        : null;
+      const withColor = { ...candidate, averageColor: averageColor ?? undefined };
+      scored.push({ ...withColor, coherenceScore: this.scoreCandidate(withColor) });
+    }
+
+    const best = scored.reduce((a, b) => (b.coherenceScore ?? 0) > (a.coherenceScore ?? 0) ? b : a);
+    console.log('🎨 Picked most coherent candidate:', {
+      url: best.url,
+      score: best.coherenceScore,
+      candidates: scored.map(candidate => candidate.coherenceScore)
+    });
+    this.chosen.push(best);
+    return best;
+  }
+
+  /**
+   * Scores a candidate between 0 and 1; signals without data count as neutral
+   * @param candidate - Candidate media, optionally with tags, style and color
+   */
+  public scoreCandidate(candidate: PixabayMedia): number {
+    const tags = (candidate.tags ?? []).flatMap(tokenize);
+
+    let score = THEME_WEIGHT * this.scoreTheme(tags);
+    score += STYLE_WEIGHT * this.scoreAgreement(
+      this.getStyle(candidate, tags),
+      this.chosen.map(media => this.getStyle(media, (media.tags ?? []).flatMap(tokenize)))
+    );
+    score += TIME_OF_DAY_WEIGHT * this.scoreAgreement(
+      this.getTimeOfDay(tags),
+      this.chosen.map(media => this.getTimeOfDay((media.tags ?? []).flatMap(tokenize)))
+    );
+    score += COLOR_WEIGHT * this.scoreColor(candidate.averageColor);
+    return Math.round(score * 1000) / 1000;
+  }
+
+  private scoreTheme(tags: string[]): number {
+    if (this.themeTokens.size === 0 || tags.length === 0) {
+      return 0.5;
+    }
+    const matches = new Set(tags.filter(tag => this.themeTokens.has(tag))).size;
+    // A handful of matching words is as good as it gets for stock tags
+    return Math.min(1, matches / Math.min(3, this.themeTokens.size));
+  }
+
+  // Share of earlier clips with the same value; unknown values stay neutral
+  private scoreAgreement<T>(value: T | null, previous: (T | null)[]): number {
+    const known = previous.filter((item): item is T => item !== null);
+    if (value === null || known.length === 0) {
+      return 0.5;
+    }
+    return known.filter(item => item === value).length / known.length;
+  }
+
+  private scoreColor(color: RgbColor | undefined): number {
+    const colors = this.chosen
+      .map(media => media.averageColor)
+      .filter((item): item is RgbColor => !!item);
+    if (!color || colors.length === 0) {
+      return 0.5;
+    }
+
+    const mean = {
+      r: colors.reduce((sum, item) => sum + item.r, 0) / colors.length,
+      g: colors.reduce((sum, item) => sum + item.g, 0) / colors.length,
+      b: colors.reduce((sum, item) => sum + item.b, 0) / colors.length
+    };
+    const distance = Math.sqrt((color.r - mean.r) ** 2 + (color.g - mean.g) ** 2 + (color.b - mean.b) ** 2);
+    return 1 - distance / MAX_COLOR_DISTANCE;
+  }
+
+  private getStyle(media: PixabayMedia, tags: string[]): VisualStyle | null {
+    if (media.style) {
+      return media.style;
+    }
+    if (tags.some(tag => ILLUSTRATION_WORDS.includes(tag))) {
+      return 'illustration';
+    }
+    return tags.length > 0 ? 'live-action' : null;
+  }
+
+  private getTimeOfDay(tags: string[]): TimeOfDay | null {
+    const night = tags.some(tag => NIGHT_WORDS.includes(tag));
+    const day = tags.some(tag => DAY_WORDS.includes(tag));
+    if (night === day) {
+      return null;
+    }
+    return night ? 'night' : 'day';
+  }
+}
@@ -1,9 +1,25 @@
 import axios from 'axios';
-import { ReelTone } from '../types';
+import { NarrationWord, PronunciationEntry, ReelTone } from '../types';
 import * as fs from 'fs';
-import * as os from 'os';
-import * as path from 'path';
+import { createHash } from 'crypto';
 import config from '../config';
+import { ProviderAuthError, ReelCancelledError, ReelWorkspace, toProviderError } from '../utils';
+import { FFmpegService } from './ffmpeg';
+import { applyLexicon, restoreSpelling } from './pronunciation';
+import { cleanScript } from './sceneAlignment';
+import { ScriptChunk, splitScript } from './scriptChunks';
+import { VoiceoverCache, getVoiceoverCacheKey } from './voiceoverCache';
+
+const MODEL_ID = 'eleven_multilingual_v2';
+// Reads SSML phoneme tags, which the multilingual model ignores; English only
+const PHONEME_MODEL_ID = 'eleven_flash_v2';
+// Text of the neighbouring chunks sent along, so each chunk keeps the delivery of its context
+const CONTEXT_CHARS = 300;
+const MAX_PARALLEL_CHUNKS = 3;
+const MAX_CHUNK_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+// Chunk audio may end this much before its last aligned character before it counts as truncated
+const DURATION_TOLERANCE = 0.3;
 
 interface Voice {
   voice_id: string;
@@ -12,9 +28,43 @@ interface Voice {
   preview_url: string;
 }
 
+// Per-character timing of the synthesized text, as returned by the with-timestamps endpoint
+interface CharacterAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+interface SynthesizedChunk {
+  audioPath: string;
+  duration: number;
+  words: NarrationWord[]; // Timed from the start of the chunk
+  info: VoiceoverChunk;
+}
+
+// One synthesized chunk of the voiceover, for the reel's event log
+export interface VoiceoverChunk {
+  index: number;
+  characters: number;
+  duration: number; // Seconds
+  attempts: number;
+  sha256: string; // Of the chunk's audio
+}
+
+export interface VoiceoverResult {
+  audioPath: string;
+  words: NarrationWord[]; // Words of the cleaned script with their timing in the audio; empty without alignment
+  chunks: VoiceoverChunk[];
+  cacheKey: string;
+  cached: boolean; // Reused from the voiceover cache instead of synthesized
+}
+
 export class ElevenLabsService {
   private readonly apiKey: string;
   private readonly baseURL = 'https://api.elevenlabs.io/v1';
+  private readonly cache = new VoiceoverCache();
+  // Settles once per instance; a failed check is dropped so the next voiceover checks again
+  private keyValidation: Promise<void> | null = null;
 
   constructor() {
     this.apiKey = config.elevenLabs.apiKey;
@@ -28,31 +78,38 @@ export class ElevenLabsService {
     }
   }
 
-  private async validateApiKey(): Promise<boolean> {
+  // Checks the key with a /voices call, once for the lifetime of the instance
+  private validateApiKey(): Promise<void> {
+    if (!this.keyValidation) {
+      this.keyValidation = this.requestKeyValidation().catch(error => {
+        this.keyValidation = null;
+        throw error;
+      });
+    }
+    return this.keyValidation;
+  }
+
+  private async requestKeyValidation(): Promise<void> {
     try {
-      const response = await axios.get(`${this.baseURL}/voices`, {
+      await axios.get(`${this.baseURL}/voices`, {
         headers: {
           'xi-api-key': this.apiKey
         }
       });
-      return response.status === 200;
+      console.log('✅ ElevenLabs API key validated');
     } catch (error: any) {
       if (error.response?.status === 401) {
-        throw new Error('ElevenLabs API key is invalid or expired');
+        throw new ProviderAuthError('elevenlabs', 'ElevenLabs API key is invalid or expired');
       }
       throw error;
     }
   }
 
-  private cleanScript(script: string): string {
-    // Remove section headers in brackets and their labels
-    const cleanedScript = script
-      .replace(/\[.*?\]\s*/g, '') // Remove [HOOK], [KEY POINT 1], etc.
-      .replace(/^\s*[\r\n]/gm, '') // Remove empty lines
-      .trim();
-    
+  private cleanScript(script: string, lexicon: PronunciationEntry[]): string {
+    const cleanedScript = cleanScript(script);
     console.log('Cleaned script:', cleanedScript);
-    return cleanedScript;
+    // Spell names and acronyms the way the voice should say them
+    return applyLexicon(cleanedScript, lexicon);
   }
 
   private getVoiceSettings(tone: ReelTone): {
@@ -136,54 +193,269 @@ export class ElevenLabsService {
     }
   }
 
-  async generateVoiceover(script: string, voiceId: string, tone: ReelTone): Promise<string> {
+  /**
+   * Synthesizes the script and times its words from ElevenLabs' character
+   * alignment, so captions show the script text exactly as written. Long
+   * scripts are split at sentence ends, synthesized a few chunks at a time
+   * with retries, and stitched back together with short pauses. Voiceovers
+   * of the same text, voice, model and settings are reused from the cache.
+   * @param script - Script content
+   * @param voiceId - ElevenLabs voice
+   * @param tone - Tone of the reel, sets the voice settings
+   * @param workspace - Workspace for the audio files
+   * @param lexicon - Pronunciations of names and acronyms; the timed words keep the original spelling
+   * @param signal - Optional signal to abort the requests
+   * @returns The voiceover, its timed words and how each chunk went
+   */
+  async generateVoiceover(
+    script: string,
+    voiceId: string,
+    tone: ReelTone,
+    workspace: ReelWorkspace,
+    lexicon: PronunciationEntry[] = [],
+    signal?: AbortSignal
+  ): Promise<VoiceoverResult> {
     try {
-      // Validate API key before proceeding
-      await this.validateApiKey();
-
       // Clean the script first
-      const cleanedScript = this.cleanScript(script);
+      const cleanedScript = this.cleanScript(script, lexicon);
       console.log('Original script:', script);
       console.log('Cleaned script:', cleanedScript);
-
-      // Create temp file path
-      const tempDir = os.tmpdir();
-      const outputPath = path.join(tempDir, `voiceover-${Date.now()}.mp3`);
+      const modelId = cleanedScript.includes('<phoneme') ? PHONEME_MODEL_ID : MODEL_ID;
 
       // Get voice settings based on tone
       const voiceSettings = this.getVoiceSettings(tone);
       console.log('Voice settings for tone:', tone, voiceSettings);
 
-      const response = await axios({
-        method: 'post',
-        url: `${this.baseURL}/text-to-speech/${voiceId}`,
-        headers: {
-          'Accept': 'audio/mpeg',
-          'xi-api-key': this.apiKey,
-          'Content-Type': 'application/json',
-        },
-        data: {
-          text: cleanedScript,
-          model_id: 'eleven_multilingual_v2',
-          voice_settings: voiceSettings
-        },
-        responseType: 'stream'
-      });
+      const cacheKey = getVoiceoverCacheKey({ text: cleanedScript, voiceId, modelId, voiceSettings });
+      const cached = await this.cache.find(cacheKey, workspace);
+      if (cached) {
+        console.log(`♻️ Reusing cached voiceover ${cacheKey}`);
+        return { ...cached, words: restoreSpelling(cached.words, lexicon), cacheKey, cached: true };
+      }
 
-      // Save the audio stream to temp file
-      const writer = fs.createWriteStream(outputPath);
-      response.data.pipe(writer);
+      // Validate API key before proceeding
+      await this.validateApiKey();
 
-      return new Promise((resolve, reject) => {
-        writer.on('finish', () => resolve(outputPath));
-        writer.on('error', reject);
+      const chunks = splitScript(cleanedScript);
+      console.log(`Synthesizing voiceover in ${chunks.length} chunk(s):`, chunks.map(chunk => chunk.text.length));
+      const ffmpegService = new FFmpegService(workspace);
+      const synthesized = await this.mapWithConcurrency(
+        chunks,
+        MAX_PARALLEL_CHUNKS,
+        (chunk, chunkSignal) =>
+          this.synthesizeChunk(chunk, chunks, voiceId, modelId, voiceSettings, workspace, ffmpegService, chunkSignal),
+        signal
+      );
+
+      // Shift each chunk's words by the audio and pauses before it
+      const words: NarrationWord[] = [];
+      let offset = 0;
+      synthesized.forEach((chunk, index) => {
+        words.push(...chunk.words.map(word => ({ ...word, start: word.start + offset, end: word.end + offset })));
+        offset += chunk.duration + chunks[index].pauseAfter;
       });
+      // Timing is all or nothing; captions from partial alignment would drift
+      const aligned = synthesized.every(chunk => chunk.words.length > 0);
+
+      let audioPath = synthesized[0].audioPath;
+      if (synthesized.length > 1) {
+        audioPath = await ffmpegService.stitchAudio(
+          synthesized.map(chunk => chunk.audioPath),
+          chunks.map(chunk => chunk.pauseAfter),
+          signal
+        );
+        synthesized.forEach(chunk => workspace.removeFile(chunk.audioPath));
+      }
+
+      console.log(`Voiceover has ${aligned ? words.length : 0} timed words`);
+      const voiceover = {
+        audioPath,
+        words: aligned ? words : [],
+        chunks: synthesized.map(chunk => chunk.info)
+      };
+      await this.cache.save(cacheKey, voiceover);
+      return { ...voiceover, words: restoreSpelling(voiceover.words, lexicon), cacheKey, cached: false };
     } catch (error: any) {
       console.error('Error generating voiceover:', error);
       if (error.response?.status === 401) {
-        throw new Error('ElevenLabs API key is invalid or expired. Please check your API key configuration.');
+        throw new ProviderAuthError('elevenlabs', 'ElevenLabs API key is invalid or expired. Please check your API key configuration.');
       }
-      throw new Error(`Failed to generate voiceover: ${error.message}`);
+      throw toProviderError(error, 'elevenlabs', 'Failed to generate voiceover');
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Synthesizes one chunk, retrying with backoff when the request fails or
+   * the audio comes back empty or cut short. Auth and request errors and
+   * cancellation are not retried.
+   */
+  private async synthesizeChunk(
+    chunk: ScriptChunk,
+    chunks: ScriptChunk[],
+    voiceId: string,
+    modelId: string,
+    voiceSettings: ReturnType<ElevenLabsService['getVoiceSettings']>,
+    workspace: ReelWorkspace,
+    ffmpegService: FFmpegService,
+    signal?: AbortSignal
+  ): Promise<SynthesizedChunk> {
+    const previousText = chunks.slice(0, chunk.index).map(other => other.text).join(' ').slice(-CONTEXT_CHARS);
+    const nextText = chunks[chunk.index + 1]?.text.slice(0, CONTEXT_CHARS) ?? '';
+
+    for (let attempt = 1; ; attempt++) {
+      const audioPath = workspace.createTempFilePath(`voiceover-chunk-${chunk.index}`, '.mp3');
+      try {
+        const response = await axios({
+          method: 'post',
+          url: `${this.baseURL}/text-to-speech/${voiceId}/with-timestamps`,
+          headers: {
+            'Accept': 'application/json',
+            'xi-api-key': this.apiKey,
+            'Content-Type': 'application/json',
+          },
+          data: {
+            text: chunk.text,
+            model_id: modelId,
+            voice_settings: voiceSettings,
+            ...(previousText ? { previous_text: previousText } : {}),
+            ...(nextText ? { next_text: nextText } : {})
+          },
+          signal
+        });
+
+        const audio = typeof response.data?.audio_base64 === 'string'
+          ? Buffer.from(response.data.audio_base64, 'base64')
+          : null;
+        if (!audio || audio.length === 0) {
+          throw new Error(`ElevenLabs returned no audio for chunk ${chunk.index}`);
+        }
+        await fs.promises.writeFile(audioPath, audio);
+
+        // The alignment follows the text as sent; normalized_alignment spells out numbers and would not match the script
+        const words = this.alignmentToWords(response.data.alignment);
+        const duration = await ffmpegService.getVoiceoverDuration(audioPath);
+        const spokenUntil = words.length > 0 ? words[words.length - 1].end : 0;
+        if (duration < spokenUntil - DURATION_TOLERANCE) {
+          throw new Error(`Audio of chunk ${chunk.index} is ${duration.toFixed(2)}s, its alignment runs to ${spokenUntil.toFixed(2)}s`);
+        }
+
+        return {
+          audioPath,
+          duration,
+          words,
+          info: {
+            index: chunk.index,
+            characters: chunk.text.length,
+            duration,
+            attempts: attempt,
+            sha256: createHash('sha256').update(audio).digest('hex')
+          }
+        };
+      } catch (error: any) {
+        workspace.removeFile(audioPath);
+        if (signal?.aborted) {
+          throw new ReelCancelledError();
+        }
+        const status: number | undefined = error.response?.status;
+        const retryable = status === undefined || status === 429 || status >= 500;
+        if (!retryable || attempt >= MAX_CHUNK_ATTEMPTS) {
+          throw error;
+        }
+        const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+        console.warn(`⚠️ Voiceover chunk ${chunk.index} failed (attempt ${attempt}/${MAX_CHUNK_ATTEMPTS}), retrying in ${delay}ms:`, error.message);
+        await this.wait(delay, signal);
+      }
+    }
+  }
+
+  // Runs the task on every item, at most `limit` at a time, keeping the results in order.
+  // The first failure aborts the tasks still running and no further items are started.
+  private async mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    task: (item: T, signal: AbortSignal) => Promise<R>,
+    signal?: AbortSignal
+  ): Promise<R[]> {
+    // Aborted by the caller's signal or by the first failure
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    let failure: { error: unknown } | undefined;
+    const worker = async () => {
+      while (!failure && next < items.length) {
+        const index = next++;
+        try {
+          results[index] = await task(items[index], controller.signal);
+        } catch (error) {
+          if (!failure) {
+            failure = { error };
+          }
+          controller.abort();
+        }
+      }
+    };
+    try {
+      // Waits for the aborted tasks too, so none is left writing files after a failure
+      await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+    if (failure) {
+      throw failure.error;
+    }
+    return results;
+  }
+
+  private wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new ReelCancelledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Joins timed characters into whitespace-separated words, keeping their
+   * punctuation for the caption grouping
+   * @param alignment - Character alignment of the synthesized text
+   * @returns Timed words, or none if the alignment is missing or malformed
+   */
+  private alignmentToWords(alignment: CharacterAlignment | undefined): NarrationWord[] {
+    const characters = alignment?.characters;
+    const starts = alignment?.character_start_times_seconds;
+    const ends = alignment?.character_end_times_seconds;
+    if (!Array.isArray(characters) || !Array.isArray(starts) || !Array.isArray(ends) ||
+        starts.length !== characters.length || ends.length !== characters.length) {
+      console.warn('⚠️ ElevenLabs response has no usable alignment');
+      return [];
+    }
+
+    const words: NarrationWord[] = [];
+    let current: NarrationWord | null = null;
+    characters.forEach((character, index) => {
+      if (/\s/.test(character)) {
+        current = null;
+        return;
+      }
+      if (!current) {
+        current = { word: '', start: starts[index], end: ends[index] };
+        words.push(current);
+      }
+      current.word += character;
+      current.end = Math.max(current.end, ends[index]);
+    });
+    return words;
+  }
+}
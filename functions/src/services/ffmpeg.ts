@@ -1,14 +1,70 @@
 import ffmpeg from 'fluent-ffmpeg';
-import { VideoScene, SceneMedia, ReelTone, EffectConfig, TransitionType } from '../types';
-import { TempFileManager } from '../utils';
+import { VideoScene, SceneMedia, EffectConfig, TransitionType, RgbColor } from '../types';
+import { ReelWorkspace, throwIfAborted, FfmpegError, ReelError } from '../utils';
 import fs from 'fs';
 
+export type ProgressCallback = (fraction: number) => void;
+
+export interface AssembleVideoOptions {
+  signal?: AbortSignal; // Kills running ffmpeg processes when aborted
+  onProgress?: ProgressCallback; // Completed fraction (0 - 1) of the whole call
+}
+
+export interface SceneRenderOptions extends AssembleVideoOptions {
+  graphicsPath?: string; // ASS file of graphics burned into the scene, e.g. its lower-third
+}
+
+// Share of muxVideo spent on normalizing and combining scenes, the rest is the audio mix
+const COMBINE_PROGRESS_SHARE = 0.6;
+// Share of combineScenes spent on normalizing the individual scenes
+const NORMALIZE_PROGRESS_SHARE = 0.5;
+// Length of the crossfade from one scene into the next
+const TRANSITION_DURATION = 0.5;
+
+/**
+ * Length of a scene's rendered clip. Every clip but the last runs on for the
+ * crossfade into the next scene, so transitions do not eat into the scenes
+ * and each scene still starts on screen at its start time
+ * @param scenes - Scenes with their final durations
+ * @param index - Index of the scene
+ */
+export function getClipDuration(scenes: VideoScene[], index: number): number {
+  return scenes[index].duration + (index < scenes.length - 1 ? TRANSITION_DURATION : 0);
+}
+
+// Maps progress of a sub-step onto a slice of the parent's progress
+function scaleProgress(onProgress: ProgressCallback | undefined, start: number, end: number): ProgressCallback | undefined {
+  return onProgress && (fraction => onProgress(start + (end - start) * fraction));
+}
+
+// Parses an ffmpeg timemark (HH:MM:SS.xx) into seconds
+function parseTimemark(timemark: string | undefined): number | null {
+  const match = timemark?.match(/^(\d+):(\d+):(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+// Cancellations and other classified errors keep their type, anything else is an ffmpeg failure
+function toFfmpegError(error: unknown, context: string): ReelError {
+  if (error instanceof ReelError) {
+    return error;
+  }
+  return new FfmpegError(`${context}: ${error instanceof Error ? error.message : String(error)}`);
+}
+
 export class FFmpegService {
-  private readonly tempFileManager: TempFileManager;
+  private static binariesConfigured = false;
+  private readonly workspace: ReelWorkspace;
+
+  constructor(workspace: ReelWorkspace) {
+    this.workspace = workspace;
+    FFmpegService.configureBinaries();
+  }
+
+  // Binary paths are process-wide, so only set them up once per process
+  private static configureBinaries(): void {
+    if (FFmpegService.binariesConfigured) return;
 
-  constructor() {
-    this.tempFileManager = TempFileManager.getInstance();
-    
     // Set up ffmpeg and ffprobe paths
     try {
       const ffmpegPath = require('ffmpeg-static');
@@ -24,8 +80,9 @@ export class FFmpegService {
       ffmpeg.setFfprobePath(ffprobePath);
       
       // Verify ffmpeg installation
-      this.verifyFfmpegInstallation();
+      FFmpegService.verifyFfmpegInstallation().catch(() => undefined);
       
+      FFmpegService.binariesConfigured = true;
       console.log('✅ FFmpeg and FFprobe initialized successfully');
     } catch (error) {
       console.error('Failed to initialize FFmpeg:', error);
@@ -33,7 +90,7 @@ export class FFmpegService {
     }
   }
 
-  private async verifyFfmpegInstallation(): Promise<void> {
+  private static async verifyFfmpegInstallation(): Promise<void> {
     return new Promise((resolve, reject) => {
       // Create a simple command to verify ffmpeg and ffprobe are working
       ffmpeg()
@@ -50,6 +107,29 @@ export class FFmpegService {
     });
   }
 
+  // Kill the spawned ffmpeg process if the reel is cancelled mid-render
+  private bindSignal(command: ffmpeg.FfmpegCommand, signal?: AbortSignal): void {
+    if (!signal) return;
+    const kill = () => {
+      console.log('Killing ffmpeg process, render was cancelled');
+      command.kill('SIGKILL');
+    };
+    signal.addEventListener('abort', kill, { once: true });
+    command.on('end', () => signal.removeEventListener('abort', kill));
+    command.on('error', () => signal.removeEventListener('abort', kill));
+  }
+
+  // Reports progress as the fraction of the expected output duration written so far
+  private bindProgress(command: ffmpeg.FfmpegCommand, durationSeconds: number, onProgress?: ProgressCallback): void {
+    if (!onProgress || durationSeconds <= 0) return;
+    command.on('progress', progress => {
+      const seconds = parseTimemark(progress.timemark);
+      if (seconds !== null) {
+        onProgress(Math.min(1, seconds / durationSeconds));
+      }
+    });
+  }
+
   private getEffectFilter(effect: EffectConfig): string {
     switch (effect.type) {
       case 'ken_burns':
@@ -102,12 +182,16 @@ export class FFmpegService {
     mediaPath: string,
     scene: VideoScene,
     index: number,
-    type: 'video' | 'image'
+    type: 'video' | 'image',
+    signal?: AbortSignal,
+    onProgress?: ProgressCallback,
+    graphicsPath?: string
   ): Promise<string> {
     console.log(`Processing scene ${index}:`, {
       type,
       duration: scene.duration,
-      effect: scene.effect?.type
+      effect: scene.effect?.type,
+      graphics: !!graphicsPath
     });
 
     // Verify input file exists
@@ -115,7 +199,7 @@ export class FFmpegService {
       throw new Error(`Input file not found for scene ${index}: ${mediaPath}`);
     }
 
-    const outputPath = this.tempFileManager.createTempFilePath(`scene-${index}`, '.mp4');
+    const outputPath = this.workspace.createTempFilePath(`scene-${index}`, '.mp4');
     
     return new Promise((resolve, reject) => {
       // First, probe the input to verify it's valid
@@ -171,6 +255,11 @@ export class FFmpegService {
           }
         }
 
+        // Graphics go on after the effects, so zooms and pans do not move them
+        if (graphicsPath) {
+          filterParts.push(`ass=${graphicsPath}`);
+        }
+
         // Add duration enforcement and fades
         filterParts.push(`trim=duration=${scene.duration}`);
         filterParts.push('setpts=PTS-STARTPTS');
@@ -189,6 +278,8 @@ export class FFmpegService {
         
         console.log(`Scene ${index} filter chain:`, filterChain);
 
+        this.bindSignal(command, signal);
+        this.bindProgress(command, scene.duration, onProgress);
         command
           .videoFilter(filterChain)
           .duration(scene.duration)
@@ -272,7 +363,12 @@ export class FFmpegService {
   }
 
   // Combine processed scenes with transitions
-  async combineScenes(scenePaths: string[], scenes: VideoScene[]): Promise<string> {
+  async combineScenes(
+    scenePaths: string[],
+    scenes: VideoScene[],
+    signal?: AbortSignal,
+    onProgress?: ProgressCallback
+  ): Promise<string> {
     console.log('Combining scenes:', scenePaths);
     
     if (scenePaths.length === 0) {
@@ -289,14 +385,30 @@ export class FFmpegService {
     // First pass: normalize all videos to the same framerate and timebase
     const normalizedScenes: string[] = [];
     try {
-      for (const scenePath of scenePaths) {
-        const normalizedPath = this.tempFileManager.createTempFilePath('normalized', '.mp4');
-        await this.normalizeVideo(scenePath, normalizedPath);
+      for (let i = 0; i < scenePaths.length; i++) {
+        const normalizedPath = this.workspace.createTempFilePath('normalized', '.mp4');
+        throwIfAborted(signal);
+        await this.normalizeVideo(
+          scenePaths[i],
+          normalizedPath,
+          getClipDuration(scenes, i),
+          signal,
+          scaleProgress(
+            onProgress,
+            NORMALIZE_PROGRESS_SHARE * i / scenePaths.length,
+            NORMALIZE_PROGRESS_SHARE * (i + 1) / scenePaths.length
+          )
+        );
         normalizedScenes.push(normalizedPath);
       }
 
       // Second pass: combine normalized scenes
-      return await this.combineNormalizedScenes(normalizedScenes, scenes);
+      return await this.combineNormalizedScenes(
+        normalizedScenes,
+        scenes,
+        signal,
+        scaleProgress(onProgress, NORMALIZE_PROGRESS_SHARE, 1)
+      );
     } catch (error) {
       // Clean up normalized files on error
       normalizedScenes.forEach(path => {
@@ -306,9 +418,15 @@ export class FFmpegService {
     }
   }
 
-  private async normalizeVideo(inputPath: string, outputPath: string): Promise<void> {
+  private async normalizeVideo(
+    inputPath: string,
+    outputPath: string,
+    duration: number,
+    signal?: AbortSignal,
+    onProgress?: ProgressCallback
+  ): Promise<void> {
     return new Promise((resolve, reject) => {
-      ffmpeg(inputPath)
+      const command = ffmpeg(inputPath)
         .outputOptions([
           '-c:v', 'libx264',
           '-preset', 'ultrafast',
@@ -324,14 +442,21 @@ export class FFmpegService {
         .on('start', cmd => console.log('Normalizing video command:', cmd))
         .on('progress', progress => console.log('Normalization progress:', progress))
         .on('error', err => reject(new Error(`Video normalization failed: ${err.message}`)))
-        .on('end', () => resolve())
-        .save(outputPath);
+        .on('end', () => resolve());
+
+      this.bindSignal(command, signal);
+      this.bindProgress(command, duration, onProgress);
+      command.save(outputPath);
     });
   }
 
-  private async combineNormalizedScenes(normalizedPaths: string[], scenes: VideoScene[]): Promise<string> {
-    const outputPath = this.tempFileManager.createTempFilePath('final', '.mp4');
-    const transitionDuration = 0.5; // 500ms transitions
+  private async combineNormalizedScenes(
+    normalizedPaths: string[],
+    scenes: VideoScene[],
+    signal?: AbortSignal,
+    onProgress?: ProgressCallback
+  ): Promise<string> {
+    const outputPath = this.workspace.createTempFilePath('final', '.mp4');
 
     return new Promise((resolve, reject) => {
       let command = ffmpeg();
@@ -342,8 +467,10 @@ export class FFmpegService {
       });
 
       // Build the complex filter for transitions
-      const filterComplex = this.buildTransitionFilter(scenes, transitionDuration);
+      const filterComplex = this.buildTransitionFilter(scenes, TRANSITION_DURATION);
       
+      this.bindSignal(command, signal);
+      this.bindProgress(command, scenes.reduce((sum, scene) => sum + scene.duration, 0), onProgress);
       command
         .complexFilter(filterComplex.filter, [filterComplex.output])
         .outputOptions([
@@ -412,8 +539,9 @@ export class FFmpegService {
         const transitionType = scenes[i - 1].transition?.type || 'fade';
         const transition = this.getFFmpegTransition(transitionType);
         
-        // Calculate cumulative offset based on previous scene duration
-        cumulativeOffset += scenes[i - 1].duration - transitionDuration;
+        // The previous clip runs on for the transition (see getClipDuration),
+        // so the next scene fades in at its own start time
+        cumulativeOffset += scenes[i - 1].duration;
         
         console.log(`Scene ${i} transition:`, {
             previousDuration: scenes[i - 1].duration,
@@ -437,7 +565,9 @@ export class FFmpegService {
     videoPath: string,
     voiceoverPath: string,
     backgroundMusicPath: string | null,
-    captionsPath: string
+    captionsPath: string,
+    signal?: AbortSignal,
+    onProgress?: ProgressCallback
   ): Promise<string> {
     console.log('Adding audio and captions with:', {
       videoPath,
@@ -452,7 +582,7 @@ export class FFmpegService {
     if (backgroundMusicPath && !fs.existsSync(backgroundMusicPath)) throw new Error('Background music file not found');
     if (!fs.existsSync(captionsPath)) throw new Error('Captions file not found');
     
-    const outputPath = this.tempFileManager.createTempFilePath('final', '.mp4');
+    const outputPath = this.workspace.createTempFilePath('final', '.mp4');
     // Adjust volume levels for better balance
     const voiceVolume = 1.0;
     const musicVolume = backgroundMusicPath ? 0.6 : 0;
@@ -709,6 +839,8 @@ export class FFmpegService {
                 }
             });
 
+        this.bindSignal(command, signal);
+        this.bindProgress(command, voiceoverDuration, onProgress);
         command.save(outputPath);
     });
   }
@@ -739,93 +871,310 @@ export class FFmpegService {
     });
   }
 
-  async assembleVideo(
-    scenes: VideoScene[],
-    sceneMedia: SceneMedia[],
-    voiceoverPath: string,
-    captionsPath: string,
-    backgroundMusicPath: string | null,
-    tone: ReelTone
-  ): Promise<string> {
-    try {
-      console.log('Starting staged video assembly with:', {
-        scenes: scenes.length,
-        media: sceneMedia.length,
-        hasBackgroundMusic: !!backgroundMusicPath
-      });
-
-      // Validate inputs
-      if (scenes.length !== sceneMedia.length) {
-        throw new Error('Scene count does not match media count');
+  /**
+   * Reads the duration of the voiceover
+   * @param voiceoverPath - Local path of the voiceover
+   * @returns Duration in seconds
+   */
+  async getVoiceoverDuration(voiceoverPath: string): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+      if (!fs.existsSync(voiceoverPath)) {
+        reject(new Error(`Voiceover file not found at path: ${voiceoverPath}`));
+        return;
       }
 
-      // 1. Get voiceover duration and adjust scene timings
-      const voiceoverDuration = await new Promise<number>((resolve, reject) => {
-        if (!fs.existsSync(voiceoverPath)) {
-          reject(new Error(`Voiceover file not found at path: ${voiceoverPath}`));
+      ffmpeg.ffprobe(voiceoverPath, (err, metadata) => {
+        if (err || !metadata?.format?.duration) {
+          reject(new Error(`Failed to get voiceover metadata: ${err?.message || 'Invalid metadata'}`));
           return;
         }
+        resolve(metadata.format.duration);
+      });
+    });
+  }
 
-        ffmpeg.ffprobe(voiceoverPath, (err, metadata) => {
-          if (err || !metadata?.format?.duration) {
-            reject(new Error(`Failed to get voiceover metadata: ${err?.message || 'Invalid metadata'}`));
-            return;
-          }
-          resolve(metadata.format.duration);
+  /**
+   * Joins audio clips into one mp3, with a stretch of silence after each clip
+   * @param audioPaths - Local paths of the clips, in order
+   * @param pauses - Seconds of silence after each clip
+   * @param signal - Optional signal to kill the process
+   * @returns Local path of the joined audio
+   */
+  async stitchAudio(audioPaths: string[], pauses: number[], signal?: AbortSignal): Promise<string> {
+    const outputPath = this.workspace.createTempFilePath('voiceover', '.mp3');
+    const padded = audioPaths.map((_, i) => `[${i}:a]aresample=44100,apad=pad_dur=${(pauses[i] ?? 0).toFixed(3)}[a${i}]`);
+    const inputs = audioPaths.map((_, i) => `[a${i}]`).join('');
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const command = ffmpeg();
+        audioPaths.forEach(audioPath => command.input(audioPath));
+        command
+          .complexFilter([...padded, `${inputs}concat=n=${audioPaths.length}:v=0:a=1[out]`], ['out'])
+          .outputOptions(['-c:a', 'libmp3lame', '-b:a', '128k'])
+          .on('start', cmd => console.log('Stitching audio command:', cmd))
+          .on('error', err => reject(new Error(`Audio stitching failed: ${err.message}`)))
+          .on('end', () => resolve());
+        this.bindSignal(command, signal);
+        command.save(outputPath);
+      });
+      return outputPath;
+    } catch (error) {
+      this.workspace.removeFile(outputPath);
+      throw toFfmpegError(error, 'Failed to stitch voiceover');
+    }
+  }
+
+  /**
+   * Scales the planned scene durations so they add up to the voiceover length.
+   * Used when scenes cannot be aligned to the narration's word timestamps.
+   * @param scenes - Planned scenes
+   * @param voiceoverPath - Local path of the voiceover
+   */
+  async fitScenesToVoiceover(scenes: VideoScene[], voiceoverPath: string): Promise<VideoScene[]> {
+    const voiceoverDuration = await this.getVoiceoverDuration(voiceoverPath);
+
+    const totalSceneDuration = scenes.reduce((sum, scene) => sum + scene.duration, 0);
+    const durationRatio = voiceoverDuration / totalSceneDuration;
+
+    let startTime = 0;
+    return scenes.map(scene => {
+      const duration = scene.duration * durationRatio;
+      const fitted = { ...scene, startTime, duration };
+      startTime += duration;
+      return fitted;
+    });
+  }
+
+  /**
+   * Renders a single scene to a 1080x1920 clip
+   * @param scene - Scene with its final duration
+   * @param media - Scene media with a local file
+   * @param index - Scene index, used for file names and logs
+   * @param options - Optional signal to kill the render, progress callback and graphics to burn in
+   */
+  async renderScene(
+    scene: VideoScene,
+    media: SceneMedia,
+    index: number,
+    options: SceneRenderOptions = {}
+  ): Promise<string> {
+    const primary = media.primary?.[0];
+    if (!primary?.localPath) {
+      throw new Error(`Missing media for scene ${index}`);
+    }
+
+    throwIfAborted(options.signal);
+    return this.processScene(
+      primary.localPath,
+      scene,
+      index,
+      primary.type,
+      options.signal,
+      options.onProgress,
+      options.graphicsPath
+    )
+      .catch(error => {
+        throw toFfmpegError(error, `Failed to render scene ${index}`);
+      });
+  }
+
+  /**
+   * Renders an overlay scene: its text card over the blurred scene media, or
+   * over a solid color when no background image was found
+   * @param scene - Scene with its final duration
+   * @param media - Scene media; the first primary item is the background, if any
+   * @param cardPath - ASS file of the text card
+   * @param color - Background color for scenes without media
+   * @param index - Scene index, used for file names and logs
+   * @param options - Optional signal to kill the render and progress callback
+   */
+  async renderTextCardScene(
+    scene: VideoScene,
+    media: SceneMedia,
+    cardPath: string,
+    color: RgbColor,
+    index: number,
+    options: AssembleVideoOptions = {}
+  ): Promise<string> {
+    throwIfAborted(options.signal);
+    const background = media.primary?.[0];
+    const outputPath = this.workspace.createTempFilePath(`scene-${index}`, '.mp4');
+
+    try {
+      const command = ffmpeg();
+      const filterParts: string[] = [];
+      if (background?.localPath) {
+        const metadata = await new Promise<ffmpeg.FfprobeData>((resolve, reject) => {
+          ffmpeg.ffprobe(background.localPath!, (err, data) => err ? reject(err) : resolve(data));
         });
+        const stream = metadata.streams.find(s => s.codec_type === 'video');
+        command
+          .input(background.localPath)
+          .inputOptions(background.type === 'image' ? ['-loop', '1'] : ['-stream_loop', '-1']);
+        filterParts.push(this.getVerticalFormatFilter(stream?.width, stream?.height));
+        // Push the background back so the card stays readable
+        filterParts.push('boxblur=luma_radius=30:luma_power=2');
+        filterParts.push('eq=brightness=-0.18:saturation=0.8');
+      } else {
+        const hex = [color.r, color.g, color.b].map(value => value.toString(16).padStart(2, '0')).join('');
+        command.input(`color=c=0x${hex}:s=1080x1920:r=25`).inputFormat('lavfi');
+      }
+
+      filterParts.push('fps=25', 'format=yuv420p', `ass=${cardPath}`);
+      filterParts.push(`trim=duration=${scene.duration}`, 'setpts=PTS-STARTPTS');
+      const fadeDuration = Math.min(0.5, scene.duration * 0.1);
+      filterParts.push(`fade=in:0:${Math.round(fadeDuration * 25)}`);
+      filterParts.push(`fade=out:${Math.round((scene.duration - fadeDuration) * 25)}:${Math.round(fadeDuration * 25)}`);
+
+      await new Promise<void>((resolve, reject) => {
+        this.bindSignal(command, options.signal);
+        this.bindProgress(command, scene.duration, options.onProgress);
+        command
+          .videoFilter(filterParts.join(','))
+          .duration(scene.duration)
+          .outputOptions([
+            '-c:v', 'libx264',
+            '-preset', 'ultrafast',
+            '-crf', '28',
+            '-pix_fmt', 'yuv420p',
+            '-movflags', '+faststart',
+            '-r', '25'
+          ])
+          .on('start', cmd => console.log(`Rendering text card scene ${index} command:`, cmd))
+          .on('error', err => reject(new Error(`Text card for scene ${index} failed: ${err.message}`)))
+          .on('end', () => resolve())
+          .save(outputPath);
       });
+      return outputPath;
+    } catch (error) {
+      throw toFfmpegError(error, `Failed to render scene ${index}`);
+    }
+  }
 
-      const totalSceneDuration = scenes.reduce((sum, scene) => sum + scene.duration, 0);
-      const durationRatio = voiceoverDuration / totalSceneDuration;
-      
-      scenes = scenes.map(scene => ({
-        ...scene,
-        duration: scene.duration * durationRatio
-      }));
-
-      // 2. Process each scene individually
-      const processedScenePaths: string[] = [];
-      for (let i = 0; i < scenes.length; i++) {
-        const scene = scenes[i];
-        const media = sceneMedia[i].primary?.[0];
-        
-        if (!media?.localPath) {
-          throw new Error(`Missing media for scene ${i}`);
+  /**
+   * Samples the average color of a clip (half a second in) or of an image
+   * @param mediaPath - Local path of the media
+   * @param type - Media type
+   * @returns The average color, or null if it could not be sampled
+   */
+  async getAverageColor(mediaPath: string, type: 'video' | 'image'): Promise<RgbColor | null> {
+    const outputPath = this.workspace.createTempFilePath('color', '.rgb');
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const command = ffmpeg(mediaPath);
+        if (type === 'video') {
+          // Skip fade-ins from black at the very start of stock clips
+          command.seekInput(0.5);
         }
+        command
+          .videoFilter('scale=1:1')
+          .frames(1)
+          .outputOptions(['-f', 'rawvideo', '-pix_fmt', 'rgb24'])
+          .on('error', err => reject(new Error(`Failed to sample color: ${err.message}`)))
+          .on('end', () => resolve())
+          .save(outputPath);
+      });
 
-        const processedPath = await this.processScene(
-          media.localPath,
-          scene,
-          i,
-          media.type
-        );
-        processedScenePaths.push(processedPath);
+      const pixel = fs.readFileSync(outputPath);
+      if (pixel.length < 3) {
+        return null;
       }
+      return { r: pixel[0], g: pixel[1], b: pixel[2] };
+    } catch (error) {
+      console.error('Color sampling failed:', error);
+      return null;
+    } finally {
+      this.workspace.removeFile(outputPath);
+    }
+  }
 
-      // 3. Combine scenes with transitions
-      const combinedVideoPath = await this.combineScenes(processedScenePaths, scenes);
+  /**
+   * Grabs a low-res vertical still of a scene's media for the storyboard
+   * @param mediaPath - Local path of the scene's primary media
+   * @param type - Media type; videos are sampled a second in
+   * @param index - Scene index, used for file names and logs
+   * @param signal - Optional signal to kill ffmpeg
+   * @returns The local path of the JPEG thumbnail
+   */
+  async renderStoryboardThumbnail(
+    mediaPath: string,
+    type: 'video' | 'image',
+    index: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const outputPath = this.workspace.createTempFilePath(`storyboard-${index}`, '.jpg');
+
+    const metadata = await new Promise<ffmpeg.FfprobeData>((resolve, reject) => {
+      ffmpeg.ffprobe(mediaPath, (err, data) => {
+        if (err) {
+          reject(new Error(`Failed to probe media for scene ${index}: ${err.message}`));
+          return;
+        }
+        resolve(data);
+      });
+    });
+    const stream = metadata.streams.find(s => s.codec_type === 'video');
+
+    return new Promise((resolve, reject) => {
+      const command = ffmpeg(mediaPath);
+      if (type === 'video') {
+        command.seekInput(Math.min(1, (metadata.format.duration || 0) / 2));
+      }
+
+      this.bindSignal(command, signal);
+      command
+        .frames(1)
+        .videoFilter(`${this.getVerticalFormatFilter(stream?.width, stream?.height)},scale=270:480`)
+        .outputOptions(['-q:v', '5'])
+        .on('error', err => reject(new Error(`Storyboard thumbnail for scene ${index} failed: ${err.message}`)))
+        .on('end', () => resolve(outputPath))
+        .save(outputPath);
+    });
+  }
+
+  /**
+   * Combines rendered scenes with transitions and mixes in narration, music and captions
+   * @param scenePaths - Rendered scene clips, in order, each getClipDuration long
+   * @param scenes - Scenes with their final durations
+   * @param options - Optional signal to kill the mux and progress callback
+   * @returns The local path of the finished video
+   */
+  async muxVideo(
+    scenePaths: string[],
+    scenes: VideoScene[],
+    voiceoverPath: string,
+    captionsPath: string,
+    backgroundMusicPath: string | null,
+    options: AssembleVideoOptions = {}
+  ): Promise<string> {
+    const { signal, onProgress } = options;
 
-      // 4. Add audio and captions
+    try {
+      // Combine scenes with transitions
+      const combinedVideoPath = await this.combineScenes(
+        scenePaths,
+        scenes,
+        signal,
+        scaleProgress(onProgress, 0, COMBINE_PROGRESS_SHARE)
+      );
+
+      // Add audio and captions
+      throwIfAborted(signal);
       const finalVideoPath = await this.addAudioAndCaptions(
         combinedVideoPath,
         voiceoverPath,
         backgroundMusicPath,
-        captionsPath
+        captionsPath,
+        signal,
+        scaleProgress(onProgress, COMBINE_PROGRESS_SHARE, 1)
       );
 
-      // Cleanup intermediate files
-      processedScenePaths.forEach(path => this.tempFileManager.removeFile(path));
-      this.tempFileManager.removeFile(combinedVideoPath);
-
+      this.workspace.removeFile(combinedVideoPath);
       return finalVideoPath;
-    } catch (error: unknown) {
-      console.error('Error in staged video assembly:', error);
-      throw error;
+    } catch (error) {
+      throw toFfmpegError(error, 'Failed to mux video');
     }
   }
-
-  // Add method to clean up all temporary files
-  cleanup(): void {
-    this.tempFileManager.cleanup();
-  }
-} 
\ No newline at end of file
+}
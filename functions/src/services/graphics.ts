@@ -0,0 +1,320 @@
+import fs from 'fs';
+import { LanguageConfig, ReelWorkspace, getLanguage } from '../utils';
+import { LowerThird, ReelTone, RgbColor, TextCard } from '../types';
+
+// Cards sit in the upper half, clear of the captions around the vertical center
+const CARD_CENTER_Y = 620;
+const CARD_WIDTH = 920;
+// Length of the entry animation in milliseconds
+const ENTRY_MS = 450;
+
+// Lower-thirds sit below the captions, clear of the app's controls at the bottom
+const LOWER_THIRD_TOP = 1440;
+const LOWER_THIRD_EDGE = 60; // Distance of the panel from the screen edge
+const LOWER_THIRD_WIDTH = 820;
+const LOWER_THIRD_PADDING = 40; // Distance of the text from the accent strip
+const LOWER_THIRD_DELAY = 0.4; // Seconds after the cut, once the scene has faded in
+// How long a lower-third stays up, long enough to read a quote
+const LOWER_THIRD_HOLD: Record<LowerThird['kind'], number> = {
+  name: 3.5,
+  quote: 5
+};
+// Rough line capacity of the quote style, to size the panel before libass wraps the text
+const QUOTE_CHARACTERS_PER_LINE = 32;
+
+// Solid backgrounds of cards without a usable background image
+const BRAND_COLORS: Record<ReelTone, RgbColor> = {
+  professional: { r: 16, g: 37, b: 66 }, // Navy
+  casual: { r: 36, g: 92, b: 110 }, // Teal
+  dramatic: { r: 18, g: 18, b: 22 } // Near black
+};
+
+// Accent of stat figures, quote marks and rules, in ASS &HBBGGRR& order
+const ACCENT_COLORS: Record<ReelTone, string> = {
+  professional: '&H00C8FF&', // Amber
+  casual: '&H7AD7FF&', // Warm yellow
+  dramatic: '&H2020E0&' // Red
+};
+
+interface CardFonts {
+  title: string;
+  body: string;
+}
+
+/**
+ * Escapes text for an ASS event: backslashes become full-width ones and
+ * braces are dropped, so neither can start an override tag
+ * @param text - Text to show as it is
+ */
+export function escapeAssText(text: string): string {
+  return text.replace(/\\/g, '＼').replace(/[{}]/g, '');
+}
+
+/**
+ * Renders on-screen graphics of a reel as ASS subtitle files, so they can be
+ * burned in with ffmpeg's ass filter like the captions
+ */
+export class GraphicsService {
+  private readonly workspace: ReelWorkspace;
+  private readonly tone: ReelTone;
+  private readonly language: LanguageConfig;
+
+  constructor(tone: ReelTone, workspace: ReelWorkspace, language: LanguageConfig = getLanguage()) {
+    this.workspace = workspace;
+    this.tone = tone;
+    this.language = language;
+  }
+
+  /**
+   * Solid background of a card, used when there is no image to blur
+   */
+  getBrandColor(): RgbColor {
+    return BRAND_COLORS[this.tone] ?? BRAND_COLORS.professional;
+  }
+
+  /**
+   * Writes the text card of an overlay scene as an ASS file. The card enters
+   * with a short animation that depends on its style and fades out at the end.
+   * @param card - Text of the card
+   * @param duration - Scene duration in seconds
+   * @param index - Scene index, used for the file name
+   * @returns The local path of the ASS file
+   */
+  createTextCard(card: TextCard, duration: number, index: number): string {
+    const end = this.formatTime(duration);
+    const events = this.getCardEvents(card, duration).map(event =>
+      `Dialogue: 0,${this.formatTime(event.start)},${end},${event.style},,0,0,0,,${event.text}`
+    );
+
+    const cardPath = this.workspace.createTempFilePath(`card-${index}`, '.ass');
+    fs.writeFileSync(cardPath, `${this.createHeader(this.getCardStyles())}\n${events.join('\n')}\n`);
+    console.log(`Text card for scene ${index}:`, { style: card.style, text: card.text });
+    return cardPath;
+  }
+
+  /**
+   * Writes a scene's lower-third as an ASS file. A panel with an accent strip
+   * slides in from the side shortly after the cut, the text follows, and both
+   * leave before the scene ends. Styled apart from the word-by-word captions.
+   * @param lowerThird - Name or quote to show
+   * @param duration - Scene duration in seconds
+   * @param index - Scene index, used for the file name
+   * @returns The local path of the ASS file, or null if the scene is too short to read it
+   */
+  createLowerThird(lowerThird: LowerThird, duration: number, index: number): string | null {
+    const start = Math.min(LOWER_THIRD_DELAY, duration * 0.1);
+    const end = Math.min(duration - 0.2, start + LOWER_THIRD_HOLD[lowerThird.kind]);
+    if (end - start < 1.5) {
+      console.log(`Scene ${index} is too short for its lower-third, skipping it`);
+      return null;
+    }
+
+    const events = this.getLowerThirdEvents(lowerThird, end - start).map(event =>
+      `Dialogue: ${event.layer},${this.formatTime(start + event.delay)},${this.formatTime(end)},${event.style},,0,0,0,,${event.text}`
+    );
+    const lowerThirdPath = this.workspace.createTempFilePath(`lower-third-${index}`, '.ass');
+    fs.writeFileSync(lowerThirdPath, `${this.createHeader(this.getLowerThirdStyles())}\n${events.join('\n')}\n`);
+    console.log(`Lower-third for scene ${index}:`, lowerThird);
+    return lowerThirdPath;
+  }
+
+  private getLowerThirdEvents(
+    lowerThird: LowerThird,
+    visibleSeconds: number
+  ): { layer: number; delay: number; style: string; text: string }[] {
+    const accent = ACCENT_COLORS[this.tone] ?? ACCENT_COLORS.professional;
+    const exit = Math.round(Math.min(300, visibleSeconds * 100));
+    const isQuote = lowerThird.kind === 'quote';
+    const lines = isQuote ? Math.min(4, Math.ceil(lowerThird.text.length / QUOTE_CHARACTERS_PER_LINE)) : 1;
+    const textHeight = isQuote ? lines * 56 : 70;
+    const height = 36 + textHeight + (lowerThird.subtext ? 56 : 0) + 24;
+
+    // Mirrored for right-to-left languages: strip and text hug the right edge
+    const rtl = this.language.rtl;
+    const align = rtl ? 9 : 7;
+    const edge = rtl ? 1080 - LOWER_THIRD_EDGE : LOWER_THIRD_EDGE;
+    const inward = (offset: number) => rtl ? edge - offset : edge + offset;
+    const slide = rtl ? 60 : -60;
+    const top = LOWER_THIRD_TOP;
+    const rectangle = (width: number, h: number) => `m 0 0 l ${width} 0 ${width} ${h} 0 ${h}`;
+
+    const events = [
+      {
+        layer: 1,
+        delay: 0,
+        style: 'Panel',
+        text: `{\\an${align}\\move(${edge + slide},${top},${edge},${top},0,300)\\fad(200,${exit})\\alpha&H30&\\p1}${rectangle(LOWER_THIRD_WIDTH, height)}{\\p0}`
+      },
+      {
+        layer: 2,
+        delay: 0,
+        style: 'Panel',
+        text: `{\\an${align}\\move(${edge + slide},${top},${edge},${top},0,300)\\fad(200,${exit})\\c${accent}\\p1}${rectangle(12, height)}{\\p0}`
+      },
+      {
+        layer: 3,
+        delay: 0.2,
+        style: isQuote ? 'LowerQuote' : 'LowerName',
+        text: `{\\an${align}\\move(${inward(LOWER_THIRD_PADDING - 20)},${top + 36},${inward(LOWER_THIRD_PADDING)},${top + 36},0,250)\\fad(250,${exit})}${isQuote ? `“${this.formatText(lowerThird.text)}”` : this.formatText(lowerThird.text)}`
+      }
+    ];
+    if (lowerThird.subtext) {
+      events.push({
+        layer: 3,
+        delay: 0.35,
+        style: 'LowerRole',
+        text: `{\\an${align}\\pos(${inward(LOWER_THIRD_PADDING)},${top + 36 + textHeight + 8})\\fad(250,${exit})\\c${accent}}${isQuote ? '— ' : ''}${this.formatText(lowerThird.subtext)}`
+      });
+    }
+    return events;
+  }
+
+  private getCardEvents(card: TextCard, duration: number): { start: number; style: string; text: string }[] {
+    const fadeOut = Math.round(Math.min(400, duration * 100));
+    const accent = ACCENT_COLORS[this.tone] ?? ACCENT_COLORS.professional;
+    const x = 540;
+    const y = CARD_CENTER_Y;
+
+    switch (card.style) {
+      case 'stat': {
+        // The figure pops in, its label follows once it has landed
+        const events = [{
+          start: 0,
+          style: 'Stat',
+          text: `{\\an5\\pos(${x},${y})\\fad(150,${fadeOut})\\c${accent}\\fscx40\\fscy40\\t(0,${ENTRY_MS},0.6,\\fscx100\\fscy100)}${this.formatText(card.text)}`
+        }];
+        if (card.subtext) {
+          events.push({
+            start: ENTRY_MS / 1000,
+            style: 'Label',
+            text: `{\\an8\\move(${x},${y + 170},${x},${y + 130},0,300)\\fad(250,${fadeOut})}${this.formatText(card.subtext)}`
+          });
+        }
+        return events;
+      }
+      case 'quote': {
+        const events = [
+          {
+            start: 0,
+            style: 'Quote',
+            text: `{\\an2\\pos(${x},${y - 150})\\fad(300,${fadeOut})\\c${accent}\\fs200}“`
+          },
+          {
+            start: 0.15,
+            style: 'Quote',
+            text: `{\\an8\\move(${x},${y - 90},${x},${y - 130},0,${ENTRY_MS})\\fad(${ENTRY_MS},${fadeOut})}${this.formatText(card.text)}`
+          }
+        ];
+        if (card.subtext) {
+          events.push({
+            start: 0.15 + ENTRY_MS / 1000,
+            style: 'Label',
+            text: `{\\an8\\pos(${x},${y + 260})\\fad(300,${fadeOut})}— ${this.formatText(card.subtext)}`
+          });
+        }
+        return events;
+      }
+      case 'headline':
+      default: {
+        // The rule wipes in under the headline while the text slides up
+        const rule = `m 0 0 l ${CARD_WIDTH - 320} 0 ${CARD_WIDTH - 320} 10 0 10`;
+        const events = [
+          {
+            start: 0,
+            style: 'Headline',
+            text: `{\\an2\\move(${x},${y + 60},${x},${y},0,${ENTRY_MS})\\fad(${ENTRY_MS},${fadeOut})}${this.formatText(card.text)}`
+          },
+          {
+            start: 0,
+            style: 'Label',
+            text: `{\\an8\\pos(${x},${y + 30})\\fad(0,${fadeOut})\\c${accent}\\bord0\\shad0\\fscx0\\t(100,${ENTRY_MS + 100},\\fscx100)\\p1}${rule}{\\p0}`
+          }
+        ];
+        if (card.subtext) {
+          events.push({
+            start: ENTRY_MS / 1000,
+            style: 'Label',
+            text: `{\\an8\\pos(${x},${y + 70})\\fad(300,${fadeOut})}${this.formatText(card.subtext)}`
+          });
+        }
+        return events;
+      }
+    }
+  }
+
+  private getCardStyles(): string[] {
+    const { title, body } = this.getFonts();
+    const margin = (1080 - CARD_WIDTH) / 2;
+    // Fonts for Arabic and Devanagari have no italics to slant quotes with
+    const quoteItalic = this.language.captionFonts ? 0 : 1;
+    return [
+      `Headline,${title},92,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,1,0,0,0,100,100,0,0,1,0,4,2,${margin},${margin},0`,
+      `Stat,${title},240,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,1,0,0,0,100,100,0,0,1,0,6,5,${margin},${margin},0`,
+      `Quote,${body},76,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,${quoteItalic},0,0,100,100,0,0,1,0,4,8,${margin},${margin},0`,
+      `Label,${body},54,&H00E6E6E6,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,2,0,1,0,3,8,${margin},${margin},0`
+    ];
+  }
+
+  // Flat, unoutlined text on a dark panel, unlike the outlined captions
+  private getLowerThirdStyles(): string[] {
+    const { title, body } = this.getFonts();
+    // Margins bound the wrap width of quotes to the panel
+    const near = LOWER_THIRD_EDGE + LOWER_THIRD_PADDING;
+    const far = 1080 - LOWER_THIRD_EDGE - LOWER_THIRD_WIDTH + LOWER_THIRD_PADDING;
+    const [left, right] = this.language.rtl ? [far, near] : [near, far];
+    const quoteItalic = this.language.captionFonts ? 0 : 1;
+    return [
+      `Panel,${body},20,&H00141414,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,0,0,7,0,0,0`,
+      `LowerName,${title},60,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,1,0,0,0,100,100,0,0,1,0,0,7,${left},${right},0`,
+      `LowerQuote,${body},46,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,${quoteItalic},0,0,100,100,0,0,1,0,0,7,${left},${right},0`,
+      `LowerRole,${body},40,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,1,0,1,0,0,7,${left},${right},0`
+    ];
+  }
+
+  private createHeader(styles: string[]): string {
+    const encoding = this.language.assEncoding;
+    return `[Script Info]
+ScriptType: v4.00+
+PlayResX: 1080
+PlayResY: 1920
+WrapStyle: 0
+ScaledBorderAndShadow: yes
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+${styles.map(style => `Style: ${style},${encoding}`).join('\n')}
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text`;
+  }
+
+  // Arabic and Devanagari need fonts with their glyphs, like the captions
+  private getFonts(): CardFonts {
+    if (this.language.captionFonts) {
+      return { title: this.language.captionFonts[0], body: this.language.captionFonts[0] };
+    }
+    switch (this.tone) {
+      case 'dramatic':
+        return { title: 'Arial Black', body: 'Helvetica Neue' };
+      case 'casual':
+        return { title: 'Montserrat', body: 'Avenir' };
+      case 'professional':
+      default:
+        return { title: 'Helvetica Neue', body: 'Helvetica' };
+    }
+  }
+
+  // Escapes characters ASS would read as overrides and embeds right-to-left text
+  private formatText(text: string): string {
+    const escaped = escapeAssText(text.trim()).replace(/\s*\n\s*/g, '\\N');
+    return this.language.rtl ? `\u202B${escaped}\u202C` : escaped;
+  }
+
+  private formatTime(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = Math.floor(seconds % 60);
+    const centiseconds = Math.floor((seconds % 1) * 100);
+    return `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(centiseconds).padStart(2, '0')}`;
+  }
+}
@@ -11,6 +11,15 @@ export interface JamendoTrack {
   tags: string[];
 }
 
+export interface BackgroundMusicTrack {
+  url: string;
+  duration: number;
+  trackId: number;
+  name: string;
+  tags: string[]; // Tags of the search that found the track
+  tagsTried: string[][];
+}
+
 export class JamendoService {
   private readonly apiKey: string;
   private readonly baseURL = 'https://api.jamendo.com/v3.0';
@@ -24,30 +33,49 @@ export class JamendoService {
     }
   }
 
-  async fetchBackgroundMusic(tone: ReelTone, mood: string): Promise<{ url: string; duration: number }> {
+  /**
+   * Finds a background track for the reel's tone and mood
+   * @param tone - Tone of the reel
+   * @param mood - Mood from the script analysis
+   * @param minDuration - Shortest track length in seconds, so the music covers the whole reel
+   * @param restrained - Search somber tracks instead of the tone's, for sensitive stories
+   */
+  async fetchBackgroundMusic(tone: ReelTone, mood: string, minDuration = 30, restrained = false): Promise<BackgroundMusicTrack> {
     try {
-      console.log('🎵 Starting Jamendo background music search with:', { tone, mood });
+      console.log('🎵 Starting Jamendo background music search with:', { tone, mood, minDuration, restrained });
       
       if (!this.apiKey) {
         throw new Error('Jamendo API key is not configured');
       }
 
       // Try with different search strategies
-      const searchStrategies = [
-        // First try: Use tone-based tags
-        async () => this.searchTrack(this.getToneTags(tone)),
-        // Second try: Use mood
-        async () => this.searchTrack([mood.toLowerCase(), 'instrumental']),
-        // Last try: Basic instrumental search
-        async () => this.searchTrack(['instrumental', 'background'])
-      ];
-
-      for (const strategy of searchStrategies) {
-        const track = await strategy();
+      const searchStrategies = restrained
+        ? [
+          // Quiet, somber tracks whatever the tone; the plan's mood may still be upbeat
+          ['sad', 'piano', 'instrumental'],
+          ['ambient', 'calm', 'instrumental']
+        ]
+        : [
+          // First try: Use tone-based tags
+          this.getToneTags(tone),
+          // Second try: Use mood
+          [mood.toLowerCase(), 'instrumental'],
+          // Last try: Basic instrumental search
+          ['instrumental', 'background']
+        ];
+
+      const tagsTried: string[][] = [];
+      for (const tags of searchStrategies) {
+        tagsTried.push(tags);
+        const track = await this.searchTrack(tags, minDuration);
         if (track) {
           return {
             url: track.audiodownload || track.audio,
-            duration: track.duration
+            duration: track.duration,
+            trackId: track.id,
+            name: track.name,
+            tags,
+            tagsTried
           };
         }
       }
@@ -59,7 +87,7 @@ export class JamendoService {
     }
   }
 
-  private async searchTrack(tags: string[]): Promise<JamendoTrack | null> {
+  private async searchTrack(tags: string[], minDuration: number): Promise<JamendoTrack | null> {
     // Basic parameters according to Jamendo API docs
     const params = new URLSearchParams({
       client_id: this.apiKey,
@@ -94,7 +122,7 @@ export class JamendoService {
       // Filter for valid tracks with audio URLs and appropriate duration
       const validTracks = results.filter((track: JamendoTrack) => {
         const hasAudio = track.audiodownload || track.audio;
-        const validDuration = track.duration >= 30 && track.duration <= 300; // Between 30s and 5min
+        const validDuration = track.duration >= Math.max(30, minDuration) && track.duration <= 300; // Long enough for the reel, at most 5min
         return hasAudio && validDuration;
       });
 
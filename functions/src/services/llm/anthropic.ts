@@ -0,0 +1,64 @@
+import axios from 'axios';
+import { LlmModelConfig } from '../../config';
+import { toProviderError } from '../../utils';
+import { LlmMessage, LlmProvider, LlmRequest, LlmResponse } from './types';
+
+const API_URL = 'https://api.anthropic.com/v1/messages';
+const API_VERSION = '2023-06-01';
+const MAX_TOKENS = 4096;
+
+/**
+ * Messages API of Anthropic. Called through axios, like the other REST
+ * providers, since there is no JSON mode to configure in an SDK anyway.
+ */
+export class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly modelConfig: LlmModelConfig
+  ) {}
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const { model, temperature } = this.modelConfig;
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const messages: LlmMessage[] = request.messages.filter(message => message.role !== 'system');
+    // Prefilling the answer with a brace is the documented way to get bare JSON
+    const prefill = request.json ? '{' : '';
+    if (prefill) {
+      messages.push({ role: 'assistant', content: prefill });
+    }
+
+    try {
+      const response = await axios.post(API_URL, {
+        model,
+        max_tokens: MAX_TOKENS,
+        temperature,
+        ...(system ? { system } : {}),
+        messages
+      }, {
+        headers: {
+          'x-api-key': this.apiKey,
+          'anthropic-version': API_VERSION,
+          'content-type': 'application/json'
+        },
+        signal: request.signal
+      });
+
+      const text = (response.data?.content ?? [])
+        .filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join('');
+      return {
+        content: text ? prefill + text : null,
+        provider: this.name,
+        model
+      };
+    } catch (error) {
+      throw toProviderError(error, this.name, `${model} request failed`);
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { ReelCancelledError, ReelError, toReelError } from '../../utils';
+import { LlmProvider, LlmRequest, LlmResponse } from './types';
+
+/**
+ * Tries providers in order and moves on to the next one when a provider
+ * fails, e.g. with a rate limit or an outage. Cancellation is never retried.
+ */
+export class FallbackLlmProvider implements LlmProvider {
+  readonly name: string;
+
+  constructor(private readonly providers: LlmProvider[]) {
+    if (providers.length === 0) {
+      throw new Error('At least one LLM provider is required');
+    }
+    this.name = providers.map(provider => provider.name).join('>');
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    let lastError: ReelError | null = null;
+    for (const provider of this.providers) {
+      try {
+        return await provider.complete(request);
+      } catch (error) {
+        if (error instanceof ReelCancelledError || request.signal?.aborted) {
+          throw error;
+        }
+        lastError = toReelError(error);
+        console.warn(`⚠️ LLM provider ${provider.name} failed (${lastError.code}):`, lastError.message);
+      }
+    }
+    throw lastError;
+  }
+}
@@ -0,0 +1,31 @@
+import config from '../../config';
+import { AnthropicProvider } from './anthropic';
+import { FallbackLlmProvider } from './fallback';
+import { OpenAiProvider } from './openai';
+import { LlmProvider } from './types';
+
+export * from './types';
+export { OpenAiProvider } from './openai';
+export { AnthropicProvider } from './anthropic';
+export { FallbackLlmProvider } from './fallback';
+
+/**
+ * Builds the LLM provider configured for this environment, falling back
+ * through config.llm.providers in order
+ */
+export function createLlmProvider(): LlmProvider {
+  const { llm } = config;
+  const providers = llm.providers.map((name): LlmProvider => {
+    switch (name) {
+      case 'openai':
+        return new OpenAiProvider('openai', { apiKey: config.openai.apiKey }, llm.openai);
+      case 'anthropic':
+        return new AnthropicProvider(llm.anthropic.apiKey, llm.anthropic);
+      case 'local':
+        return new OpenAiProvider('local', { apiKey: llm.local.apiKey, baseURL: llm.local.baseURL }, llm.local);
+    }
+  });
+
+  console.log('🧠 LLM providers:', llm.providers);
+  return providers.length === 1 ? providers[0] : new FallbackLlmProvider(providers);
+}
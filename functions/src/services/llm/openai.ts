@@ -0,0 +1,48 @@
+import OpenAI from 'openai';
+import { LlmModelConfig } from '../../config';
+import { toProviderError } from '../../utils';
+import { LlmProvider, LlmRequest, LlmResponse } from './types';
+
+/**
+ * Chat completions on OpenAI, or on any server with an OpenAI-compatible API
+ * (Ollama, vLLM, a stub server in local development) when given a base URL
+ */
+export class OpenAiProvider implements LlmProvider {
+  private readonly client: OpenAI;
+
+  /**
+   * @param name - Provider name for logs and the event log, e.g. 'openai' or 'local'
+   * @param options - API key and optional base URL of an OpenAI-compatible server
+   * @param modelConfig - Model and temperature
+   */
+  constructor(
+    readonly name: string,
+    options: { apiKey: string; baseURL?: string },
+    private readonly modelConfig: LlmModelConfig
+  ) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      ...(options.baseURL ? { baseURL: options.baseURL } : {})
+    });
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const { model, temperature } = this.modelConfig;
+    try {
+      const completion = await this.client.chat.completions.create({
+        model,
+        messages: request.messages,
+        ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+        temperature
+      }, { signal: request.signal });
+
+      return {
+        content: completion.choices[0]?.message.content ?? null,
+        provider: this.name,
+        model
+      };
+    } catch (error) {
+      throw toProviderError(error, this.name, `${model} request failed`);
+    }
+  }
+}
@@ -0,0 +1,26 @@
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  json?: boolean; // Ask for a single JSON object as the response
+  signal?: AbortSignal;
+}
+
+export interface LlmResponse {
+  content: string | null;
+  provider: string; // Provider that answered, which may be a fallback
+  model: string;
+}
+
+/**
+ * A chat model that script analysis can run on. Implementations throw
+ * ReelErrors (see toProviderError), so callers can tell auth and quota
+ * failures apart.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
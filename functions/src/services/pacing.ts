@@ -0,0 +1,77 @@
+import { SceneCountRange } from '../types';
+
+export const DEFAULT_TARGET_DURATION = 30;
+export const MIN_TARGET_DURATION = 15;
+export const MAX_TARGET_DURATION = 120;
+
+/**
+ * Length and pacing constraints of one reel, derived from its target duration
+ */
+export interface ReelPacing {
+  targetDuration: number;
+  minDuration: number; // Accepted range of the planned total duration
+  maxDuration: number;
+  durationSlack: number; // Plans this far outside the range are stretched instead of rejected
+  minScenes: number;
+  maxScenes: number;
+  minSceneDuration: number;
+  maxSceneDuration: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Scales the reel's constraints with its length: short teasers get few, fast
+ * cuts and long explainers more scenes that are allowed to breathe. A target
+ * of 30 seconds gives the original 25-35s, 7-10 scenes of 2-5 seconds.
+ * @param targetDuration - Requested length in seconds, clamped to 15 - 120
+ * @param sceneCount - Optional scene count range that overrides the derived one;
+ * clamped to the counts the reel's length and scene durations allow, so callers
+ * can compare it with minScenes and maxScenes to tell whether it was adjusted
+ */
+export function getReelPacing(targetDuration?: number, sceneCount?: SceneCountRange): ReelPacing {
+  const target = clamp(Math.round(targetDuration ?? DEFAULT_TARGET_DURATION), MIN_TARGET_DURATION, MAX_TARGET_DURATION);
+
+  const window = Math.max(2, Math.round(target / 6));
+  const minSceneDuration = clamp(Math.round(target / 15), 2, 4);
+  const maxSceneDuration = clamp(Math.round(target / 6), 4, 10);
+
+  const minDuration = target - window;
+  const maxDuration = target + window;
+
+  const averageScenes = target / ((minSceneDuration + maxSceneDuration) / 2);
+  let minScenes = Math.max(3, Math.round(averageScenes * 0.8));
+  let maxScenes = Math.max(minScenes, Math.round(averageScenes * 1.15));
+  if (sceneCount && Number.isFinite(sceneCount.min) && Number.isFinite(sceneCount.max)) {
+    // Scene counts the durations allow: enough scenes to fill the reel, few enough to fit it
+    const fewest = Math.ceil(minDuration / maxSceneDuration);
+    const most = Math.floor(maxDuration / minSceneDuration);
+    minScenes = clamp(Math.round(Math.min(sceneCount.min, sceneCount.max)), fewest, most);
+    maxScenes = clamp(Math.round(Math.max(sceneCount.min, sceneCount.max)), minScenes, most);
+  }
+
+  return {
+    targetDuration: target,
+    minDuration,
+    maxDuration,
+    durationSlack: Math.max(2, Math.round(target / 15)),
+    minScenes,
+    maxScenes,
+    minSceneDuration,
+    maxSceneDuration
+  };
+}
+
+/**
+ * Editing guidance for the prompt that matches the reel's length
+ * @param pacing - Constraints of the reel
+ */
+export function describePacing(pacing: ReelPacing): string {
+  if (pacing.targetDuration <= 20) {
+    return `This is a short teaser: open with the most striking visual, cut fast and keep every scene punchy. Skip background and context.`;
+  }
+  if (pacing.targetDuration <= 45) {
+    return `This is a standard news reel: hook the viewer in the first scene, then move briskly through the key facts.`;
+  }
+  return `This is a longer explainer: open with a hook, then give the story room with an intro, a body that explains the key facts and context, and a closing scene. Let establishing shots run longer and vary the rhythm so it does not feel rushed or monotonous.`;
+}
@@ -1,7 +1,7 @@
-import { VideoScene, SceneMedia, PixabayMedia } from '../types';
+import { VideoScene, SceneMedia, PixabayMedia, MediaSearchInfo } from '../types';
 import config from '../config';
-import os from 'os';
-import path from 'path';
+import { ReelWorkspace, NoMediaFoundError, rethrowProviderAccessError } from '../utils';
+import { VisualCoherence } from './coherence';
 import fs from 'fs';
 import axios from 'axios';
 
@@ -26,6 +26,7 @@ interface PexelsImage {
   width: number;
   height: number;
   url: string;
+  alt?: string;
   src: {
     original: string;
     large2x: string;
@@ -42,21 +43,26 @@ export class PexelsService {
   private readonly apiKey: string;
   private readonly videoBaseURL = 'https://api.pexels.com/videos';
   private readonly imageBaseURL = 'https://api.pexels.com/v1';
-  private readonly tempDir: string;
   private readonly headers: { [key: string]: string };
   private usedVideos = new Map<number, { timestamp: number, query: string }>();
   private readonly VIDEO_REUSE_TIMEOUT = 1000 * 60 * 5; // 5 minutes
+  private readonly MAX_DOWNLOADED_CANDIDATES = 2; // Candidates downloaded to compare colors
 
   constructor() {
     this.apiKey = config.pexels.apiKey;
-    this.tempDir = os.tmpdir();
     this.headers = {
       'Authorization': this.apiKey,
       'Content-Type': 'application/json'
     };
   }
 
-  async fetchMediaForScene(scene: VideoScene): Promise<SceneMedia> {
+  async fetchMediaForScene(
+    scene: VideoScene,
+    workspace: ReelWorkspace,
+    coherence: VisualCoherence,
+    signal?: AbortSignal
+  ): Promise<SceneMedia> {
+    const search: MediaSearchInfo = { provider: 'pexels', keywordsTried: [] };
     try {
       console.log('Starting Pexels media fetch for scene:', {
         description: scene.description,
@@ -77,6 +83,7 @@ export class PexelsService {
 
         try {
           console.log(`Pexels search attempt ${searchAttempts} with strategy:`, strategy);
+          search.keywordsTried.push(strategy);
           primaryMedia = await this.fetchPrimaryMedia(
             scene.visualType,
             strategy,
@@ -85,9 +92,11 @@ export class PexelsService {
 
           if (primaryMedia.length > 0) {
             console.log(`Found media using strategy:`, strategy);
+            search.matchedKeywords = strategy;
             break;
           }
         } catch (error) {
+          rethrowProviderAccessError(error, 'pexels');
           console.log(`Search attempt ${searchAttempts} failed with strategy:`, strategy, error);
         }
       }
@@ -97,12 +106,17 @@ export class PexelsService {
         console.log('Attempting fallback search...');
         try {
           const fallbackStrategy = this.generateFallbackStrategy(scene);
+          search.keywordsTried.push(fallbackStrategy);
           primaryMedia = await this.fetchPrimaryMedia(
             scene.visualType,
             fallbackStrategy,
             scene.duration
           );
+          if (primaryMedia.length > 0) {
+            search.matchedKeywords = fallbackStrategy;
+          }
         } catch (error) {
+          rethrowProviderAccessError(error, 'pexels');
           console.log('Fallback search failed:', error);
         }
       }
@@ -111,22 +125,37 @@ export class PexelsService {
         throw new Error(`No suitable media found for scene: ${scene.description}`);
       }
 
-      // Download and validate media
-      const validatedMedia = await this.downloadAndValidateMedia(primaryMedia, scene);
+      // Download the most coherent candidates and keep the best match
+      const candidates = coherence.rankCandidates(primaryMedia).slice(0, this.MAX_DOWNLOADED_CANDIDATES);
+      const validatedMedia = await this.downloadAndValidateMedia(candidates, scene, workspace, signal);
       console.log(`Successfully validated ${validatedMedia.length} media items`);
 
       if (validatedMedia.length === 0) {
         throw new Error('No media passed validation');
       }
 
+      const chosen = await coherence.pickBest(validatedMedia);
+      validatedMedia
+        .filter(item => item !== chosen && item.localPath)
+        .forEach(item => workspace.removeFile(item.localPath!));
+      if (chosen.type === 'video' && chosen.id !== undefined) {
+        // Mark this video as used with current timestamp and query
+        this.usedVideos.set(chosen.id, {
+          timestamp: Date.now(),
+          query: (search.matchedKeywords ?? []).join(' ')
+        });
+      }
+
       return {
-        primary: validatedMedia,
+        primary: [chosen],
         background: [],
-        overlays: []
+        overlays: [],
+        search
       };
     } catch (error: any) {
       console.error('Error fetching media from Pexels:', error);
-      throw new Error(`Failed to fetch media: ${error.message}`);
+      rethrowProviderAccessError(error, 'pexels');
+      throw new NoMediaFoundError(`Failed to fetch media: ${error.message}`, search);
     }
   }
 
@@ -242,7 +271,7 @@ export class PexelsService {
       case 'static':
         return this.searchImages(keywords);
       case 'overlay':
-        return []; // Overlays handled separately
+        return this.searchImages(keywords); // Blurred behind the scene's text card
       default:
         throw new Error(`Unsupported visual type: ${visualType}`);
     }
@@ -333,7 +362,7 @@ export class PexelsService {
       const horizontalVideos = filteredVideos.filter((v: PexelsVideo) => v.width >= v.height);
       
       // Prefer vertical videos, but include horizontal if needed
-      const topMatches = [
+      const topMatches: PexelsVideo[] = [
         ...verticalVideos.slice(0, 4),
         ...horizontalVideos.slice(0, 2)
       ].slice(0, 4);
@@ -344,51 +373,39 @@ export class PexelsService {
         return [];
       }
 
-      // Randomly select one from the top matches
-      const selectedVideo = topMatches[Math.floor(Math.random() * topMatches.length)];
-      
-      // Mark this video as used with current timestamp and query
-      this.usedVideos.set(selectedVideo.id, { 
-        timestamp: Date.now(),
-        query
-      });
-      
-      const videoFile = selectedVideo.video_files.find((file: PexelsVideo['video_files'][0]) => 
-        (file.quality === 'hd' || file.quality === 'sd') && 
-        file.width >= 1080
-      );
-
-      if (!videoFile) return [];
-
       // Log the selection process
-      console.log('Video selection:', {
+      console.log('Video candidates:', {
         totalMatches: filteredVideos.length,
         verticalMatches: verticalVideos.length,
         horizontalMatches: horizontalVideos.length,
         topMatchesCount: topMatches.length,
-        selectedVideoId: selectedVideo.id,
-        isVertical: selectedVideo.height > selectedVideo.width,
         usedVideosCount: this.usedVideos.size,
-        duration: selectedVideo.duration,
         targetDuration,
         query
       });
 
-      return [{
-        type: 'video',
-        url: videoFile.link,
-        width: videoFile.width,
-        height: videoFile.height,
-        isHorizontal: selectedVideo.width > selectedVideo.height
-      }];
+      // The caller picks the candidate that fits the rest of the reel best
+      return topMatches.flatMap(video => {
+        const videoFile = video.video_files.find(file =>
+          (file.quality === 'hd' || file.quality === 'sd') &&
+          file.width >= 1080
+        );
+        if (!videoFile) return [];
+
+        return [{
+          type: 'video' as const,
+          url: videoFile.link,
+          width: videoFile.width,
+          height: videoFile.height,
+          id: video.id,
+          tags: this.getSlugWords(video.url),
+          style: 'live-action' as const,
+          isHorizontal: video.width > video.height
+        }];
+      });
     } catch (error: any) {
-      // Handle rate limiting
-      if (error.response?.status === 429) {
-        console.log('Rate limit reached, waiting before retrying...');
-        // Wait for 1 second before next attempt
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        return [];
-      }
+      // A rate limit or rejected key fails every other search too
+      rethrowProviderAccessError(error, 'pexels');
       console.error('Pexels video search error:', error);
       return [];
     }
@@ -413,42 +430,56 @@ export class PexelsService {
         return [];
       }
 
-      // Get the best quality image that meets our requirements
+      // Get the best quality images that meet our requirements
       const filteredPhotos = response.data.photos
         .filter((photo: PexelsImage) => photo.height >= 1920)
-        .slice(0, 1)
+        .slice(0, 4)
         .map((photo: PexelsImage) => ({
           type: 'image' as const,
           url: photo.src.large2x || photo.src.large,
           width: photo.width,
-          height: photo.height
+          height: photo.height,
+          id: photo.id,
+          tags: photo.alt ? photo.alt.toLowerCase().split(/\s+/) : this.getSlugWords(photo.url)
         }));
 
       return filteredPhotos;
     } catch (error) {
+      rethrowProviderAccessError(error, 'pexels');
       console.error('Pexels image search error:', error);
       return [];
     }
   }
 
+  // Pexels page URLs describe the media, e.g. /video/aerial-view-of-a-city-at-night-123/
+  private getSlugWords(pageUrl: string): string[] {
+    const slug = pageUrl.split('/').filter(part => part.length > 0).pop() ?? '';
+    return slug.split('-').filter(word => word.length > 0 && !/^\d+$/.test(word));
+  }
+
   private async downloadAndValidateMedia(
     media: PixabayMedia[],
-    scene: VideoScene
+    scene: VideoScene,
+    workspace: ReelWorkspace,
+    signal?: AbortSignal
   ): Promise<PixabayMedia[]> {
     const validatedMedia: PixabayMedia[] = [];
 
     for (const item of media) {
       try {
-        const localPath = path.join(this.tempDir, `media-${Date.now()}-${validatedMedia.length}${item.type === 'video' ? '.mp4' : '.jpg'}`);
-        
         // Download the file
-        await this.downloadFile(item.url, localPath);
+        const localPath = await workspace.downloadFile(
+          item.url,
+          `media-${validatedMedia.length}`,
+          item.type === 'video' ? '.mp4' : '.jpg',
+          signal
+        );
         
         // For horizontal videos, create a vertically trimmed version
         let finalPath = localPath;
         if (item.type === 'video' && (item as any).isHorizontal) {
-          const trimmedPath = path.join(this.tempDir, `media-${Date.now()}-trimmed.mp4`);
-          await this.createVerticalVersion(localPath, trimmedPath);
+          const trimmedPath = workspace.createTempFilePath('media-trimmed', '.mp4');
+          await this.createVerticalVersion(localPath, trimmedPath, signal);
           finalPath = trimmedPath;
         }
         
@@ -468,21 +499,6 @@ export class PexelsService {
     return validatedMedia;
   }
 
-  private async downloadFile(url: string, localPath: string): Promise<void> {
-    const response = await axios({
-      method: 'get',
-      url: url,
-      responseType: 'stream'
-    });
-
-    return new Promise((resolve, reject) => {
-      const writer = fs.createWriteStream(localPath);
-      response.data.pipe(writer);
-      writer.on('finish', resolve);
-      writer.on('error', reject);
-    });
-  }
-
   private async validateDownloadedFile(
     localPath: string,
     type: 'video' | 'image',
@@ -504,12 +520,12 @@ export class PexelsService {
     }
   }
 
-  private async createVerticalVersion(inputPath: string, outputPath: string): Promise<void> {
+  private async createVerticalVersion(inputPath: string, outputPath: string, signal?: AbortSignal): Promise<void> {
     return new Promise((resolve, reject) => {
       // Use ffmpeg to crop the video to vertical format
       // This takes the center portion of the video and crops it to 9:16 aspect ratio
       const ffmpeg = require('fluent-ffmpeg');
-      ffmpeg(inputPath)
+      const command = ffmpeg(inputPath)
         .outputOptions([
           // Crop from center to achieve 9:16 aspect ratio without padding
           '-vf', 'crop=ih*9/16:ih:in_w/2-((ih*9/16)/2):0',
@@ -522,14 +538,20 @@ export class PexelsService {
           console.log('Creating vertical version with command:', cmd);
         })
         .on('end', () => {
+          signal?.removeEventListener('abort', kill);
           console.log('Successfully created vertical version');
           resolve();
         })
         .on('error', (err: Error) => {
+          signal?.removeEventListener('abort', kill);
           console.error('Error creating vertical version:', err);
           reject(err);
-        })
-        .run();
+        });
+
+      // Stop cropping as soon as the reel is cancelled
+      const kill = () => command.kill('SIGKILL');
+      signal?.addEventListener('abort', kill, { once: true });
+      command.run();
     });
   }
 } 
\ No newline at end of file
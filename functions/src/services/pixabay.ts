@@ -1,7 +1,7 @@
-import { VideoScene, SceneMedia, PixabayMedia, ReelTone } from '../types';
+import { VideoScene, SceneMedia, PixabayMedia, ReelTone, MediaSearchInfo } from '../types';
 import config from '../config';
-import os from 'os';
-import path from 'path';
+import { ReelWorkspace, NoMediaFoundError, rethrowProviderAccessError } from '../utils';
+import { VisualCoherence } from './coherence';
 import fs from 'fs';
 import axios from 'axios';
 
@@ -18,14 +18,19 @@ export class PixabayService {
   private readonly videoBaseURL = 'https://pixabay.com/api/videos/';
   private readonly imageBaseURL = 'https://pixabay.com/api/';
   private readonly audioBaseURL = 'https://pixabay.com/api/audio/';
-  private readonly tempDir: string;
+  private readonly MAX_DOWNLOADED_CANDIDATES = 2; // Candidates downloaded to compare colors
 
   constructor() {
     this.apiKey = config.pixabay.apiKey;
-    this.tempDir = os.tmpdir();
   }
 
-  async fetchMediaForScene(scene: VideoScene): Promise<SceneMedia> {
+  async fetchMediaForScene(
+    scene: VideoScene,
+    workspace: ReelWorkspace,
+    coherence: VisualCoherence,
+    signal?: AbortSignal
+  ): Promise<SceneMedia> {
+    const search: MediaSearchInfo = { provider: 'pixabay', keywordsTried: [] };
     try {
       console.log('Starting media fetch for scene:', {
         description: scene.description,
@@ -50,6 +55,7 @@ export class PixabayService {
         searchAttempts++;
 
         try {
+          search.keywordsTried.push(keywords);
           primaryMedia = await this.fetchPrimaryMedia(
             scene.visualType,
             keywords,
@@ -58,9 +64,11 @@ export class PixabayService {
 
           if (primaryMedia.length > 0) {
             console.log(`Found media using keywords:`, keywords);
+            search.matchedKeywords = keywords;
             break;
           }
         } catch (error) {
+          rethrowProviderAccessError(error, 'pixabay');
           console.log(`Search attempt ${searchAttempts} failed with keywords:`, keywords, error);
           if (searchAttempts >= maxAttempts) {
             throw new Error('Exhausted all search attempts');
@@ -71,13 +79,19 @@ export class PixabayService {
       // If still no results, try one last time with very generic terms
       if (primaryMedia.length === 0) {
         console.log('Attempting final generic search...');
+        const genericKeywords = ['video', 'background'];
         try {
+          search.keywordsTried.push(genericKeywords);
           primaryMedia = await this.fetchPrimaryMedia(
             'b-roll', // Default to b-roll
-            ['video', 'background'],
+            genericKeywords,
             scene.duration
           );
+          if (primaryMedia.length > 0) {
+            search.matchedKeywords = genericKeywords;
+          }
         } catch (error) {
+          rethrowProviderAccessError(error, 'pixabay');
           console.log('Final generic search failed:', error);
         }
       }
@@ -87,37 +101,50 @@ export class PixabayService {
         throw new Error(`No suitable media found for scene: ${scene.description}`);
       }
 
-      // Download and validate media
-      const validatedMedia = await this.downloadAndValidateMedia(primaryMedia, scene);
+      // Download the most coherent candidates and keep the best match
+      const candidates = coherence.rankCandidates(primaryMedia).slice(0, this.MAX_DOWNLOADED_CANDIDATES);
+      const validatedMedia = await this.downloadAndValidateMedia(candidates, scene, workspace, signal);
       console.log(`Successfully validated ${validatedMedia.length} media items`);
 
       if (validatedMedia.length === 0) {
         throw new Error('No media passed validation');
       }
 
+      const chosen = await coherence.pickBest(validatedMedia);
+      validatedMedia
+        .filter(item => item !== chosen && item.localPath)
+        .forEach(item => workspace.removeFile(item.localPath!));
+
       return {
-        primary: validatedMedia,
+        primary: [chosen],
         background: [],
-        overlays: []
+        overlays: [],
+        search
       };
     } catch (error: any) {
       console.error('Error fetching media for scene:', error);
-      throw new Error(`Failed to fetch media: ${error.message}`);
+      rethrowProviderAccessError(error, 'pixabay');
+      throw new NoMediaFoundError(`Failed to fetch media: ${error.message}`, search);
     }
   }
 
   private async downloadAndValidateMedia(
     media: PixabayMedia[],
-    scene: VideoScene
+    scene: VideoScene,
+    workspace: ReelWorkspace,
+    signal?: AbortSignal
   ): Promise<PixabayMedia[]> {
     const validatedMedia: PixabayMedia[] = [];
 
     for (const item of media) {
       try {
-        const localPath = path.join(this.tempDir, `media-${Date.now()}-${validatedMedia.length}${item.type === 'video' ? '.mp4' : '.jpg'}`);
-        
         // Download the file
-        await this.downloadFile(item.url, localPath);
+        const localPath = await workspace.downloadFile(
+          item.url,
+          `media-${validatedMedia.length}`,
+          item.type === 'video' ? '.mp4' : '.jpg',
+          signal
+        );
         
         // Validate the downloaded file
         if (await this.validateDownloadedFile(localPath, item.type, scene)) {
@@ -139,21 +166,6 @@ export class PixabayService {
     return validatedMedia;
   }
 
-  private async downloadFile(url: string, localPath: string): Promise<void> {
-    const response = await axios({
-      method: 'get',
-      url: url,
-      responseType: 'stream'
-    });
-
-    return new Promise((resolve, reject) => {
-      const writer = fs.createWriteStream(localPath);
-      response.data.pipe(writer);
-      writer.on('finish', resolve);
-      writer.on('error', reject);
-    });
-  }
-
   private async validateDownloadedFile(
     localPath: string,
     type: 'video' | 'image',
@@ -189,7 +201,7 @@ export class PixabayService {
       case 'static':
         return this.searchImages(keywords, null, 1920);
       case 'overlay':
-        return []; // Overlays handled separately
+        return this.searchImages(keywords, null, 1920); // Blurred behind the scene's text card
       default:
         throw new Error(`Unsupported visual type: ${visualType}`);
     }
@@ -238,6 +250,7 @@ export class PixabayService {
           return results;
         }
       } catch (error) {
+        rethrowProviderAccessError(error, 'pixabay');
         console.log('Search strategy failed:', error);
         continue;
       }
@@ -303,12 +316,15 @@ export class PixabayService {
         return aDurationDiff - bDurationDiff;
       });
 
-    // Return only the most relevant video
-    return sortedHits.slice(0, 1).map((hit: any) => ({
+    // Return the most relevant videos; the caller picks the most coherent one
+    return sortedHits.slice(0, 5).map((hit: any) => ({
       type: 'video',
       url: hit.videos.large.url,
       width: hit.width,
-      height: hit.height
+      height: hit.height,
+      id: hit.id,
+      tags: this.parseTags(hit.tags),
+      style: hit.type === 'animation' ? 'illustration' : 'live-action'
     }));
   }
 
@@ -342,10 +358,21 @@ export class PixabayService {
       type: 'image',
       url: hit.largeImageURL,
       width: hit.imageWidth,
-      height: hit.imageHeight
+      height: hit.imageHeight,
+      id: hit.id,
+      tags: this.parseTags(hit.tags),
+      style: hit.type === 'photo' ? 'live-action' : 'illustration' // 'illustration' or 'vector'
     }));
   }
 
+  // Pixabay returns tags as a comma separated string
+  private parseTags(tags: string | undefined): string[] {
+    return (tags ?? '')
+      .split(',')
+      .map(tag => tag.trim().toLowerCase())
+      .filter(tag => tag.length > 0);
+  }
+
   async fetchBackgroundMusic(tone: ReelTone, mood: string): Promise<PixabayAudioTrack> {
     try {
       console.log('Starting background music search with:', { tone, mood });
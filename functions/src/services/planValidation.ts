@@ -0,0 +1,389 @@
+import { LowerThirdKind, SensitivityLevel, TextCardStyle, TransitionType, VideoAnalysis, VideoEffect, VisualType } from '../types';
+import { ReelPacing } from './pacing';
+import { cleanScript, tokenizeNarration } from './sceneAlignment';
+
+// Records rather than arrays, so the compiler flags a value added to the type but not here
+const VISUAL_TYPES: Record<VisualType, true> = {
+  'b-roll': true,
+  static: true,
+  talking: true,
+  overlay: true
+};
+
+const TRANSITION_TYPES: Record<TransitionType, true> = {
+  fade: true,
+  crossfade: true,
+  zoom_in: true,
+  zoom_out: true,
+  slide_left: true,
+  slide_right: true,
+  push_left: true,
+  push_right: true,
+  blur: true,
+  flash_white: true,
+  glitch: true,
+  none: true
+};
+
+const EFFECT_TYPES: Record<VideoEffect, true> = {
+  ken_burns: true,
+  zoom_in: true,
+  zoom_out: true,
+  pan_left: true,
+  pan_right: true,
+  tilt_up: true,
+  tilt_down: true,
+  blur_edges: true,
+  vignette: true,
+  color_boost: true,
+  dramatic: true,
+  none: true
+};
+
+const TEXT_CARD_STYLES: Record<TextCardStyle, true> = {
+  headline: true,
+  stat: true,
+  quote: true
+};
+
+// Longest text that still fits a card at its font size
+const MAX_TEXT_CARD_LENGTH: Record<TextCardStyle, number> = {
+  headline: 70,
+  stat: 12,
+  quote: 160
+};
+const MAX_TEXT_CARD_SUBTEXT_LENGTH = 60;
+
+const SENSITIVITY_LEVELS: Record<SensitivityLevel, true> = {
+  none: true,
+  sensitive: true,
+  tragic: true
+};
+
+const LOWER_THIRD_KINDS: Record<LowerThirdKind, true> = {
+  name: true,
+  quote: true
+};
+
+const MAX_LOWER_THIRD_LENGTH: Record<LowerThirdKind, number> = {
+  name: 40,
+  quote: 120
+};
+const MAX_LOWER_THIRD_SUBTEXT_LENGTH = 50;
+
+// Scene durations may miss the requested range by this much, since the voiceover re-times them anyway
+const SCENE_DURATION_LEEWAY = 1;
+
+export type PlanValidationResult =
+  | { valid: true; plan: VideoAnalysis }
+  | { valid: false; errors: string[] };
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isOneOf = (values: Record<string, true>, value: unknown): boolean =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(values, value);
+
+const listAllowed = (values: Record<string, true>) => Object.keys(values).join(', ');
+
+/**
+ * Checks a parsed model response against the VideoAnalysis types and the
+ * reel's pacing. Errors are phrased so they can be sent back to the model.
+ * Missing scene transitions and effects are allowed, since the plan's
+ * defaults fill them in (see VideoAnalysisService.applyOverallDirection).
+ * @param raw - Parsed JSON response
+ * @param pacing - Length and scene constraints of the reel
+ * @param script - Script the scenes' narration must cover, in order; its
+ *   bracketed section headers are not spoken and need not be narrated
+ */
+export function validatePlan(raw: unknown, pacing: ReelPacing, script: string): PlanValidationResult {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) {
+    return { valid: false, errors: ['The response must be a JSON object'] };
+  }
+
+  validateContextAnalysis(raw.contextAnalysis, errors);
+  validateDirection(raw, errors);
+
+  if (!Array.isArray(raw.scenes)) {
+    errors.push('"scenes" must be an array');
+    return { valid: false, errors };
+  }
+
+  const { minScenes, maxScenes, minDuration, maxDuration, durationSlack } = pacing;
+  if (raw.scenes.length < minScenes || raw.scenes.length > maxScenes) {
+    errors.push(`"scenes" must contain ${minScenes}-${maxScenes} scenes, got ${raw.scenes.length}`);
+  }
+  const entities = getNamedEntities(raw.contextAnalysis);
+  raw.scenes.forEach((scene, index) => validateScene(scene, index, pacing, entities, errors));
+  validateNarration(raw.scenes, cleanScript(script), errors);
+
+  const totalDuration = raw.scenes.reduce(
+    (sum: number, scene) => sum + (isObject(scene) && isFiniteNumber(scene.duration) ? scene.duration : 0),
+    0
+  );
+  if (totalDuration < minDuration - durationSlack || totalDuration > maxDuration + durationSlack) {
+    errors.push(`Scene durations must sum to ${minDuration}-${maxDuration} seconds, got ${totalDuration}`);
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  // Shape checked above; scene ids are ours to assign, and overlay scenes show a text card instead of a lower-third
+  const plan = raw as unknown as VideoAnalysis;
+  return {
+    valid: true,
+    plan: {
+      ...plan,
+      scenes: plan.scenes.map((scene, index) => ({
+        ...scene,
+        id: scene.id ?? `scene-${index}`,
+        textCard: scene.visualType === 'overlay' ? scene.textCard : undefined,
+        lowerThird: scene.visualType === 'overlay' ? undefined : scene.lowerThird
+      }))
+    }
+  };
+}
+
+function validateContextAnalysis(context: unknown, errors: string[]): void {
+  if (!isObject(context)) {
+    errors.push('"contextAnalysis" must be an object');
+    return;
+  }
+
+  for (const field of ['mainTopic', 'category', 'targetAudience', 'mood']) {
+    if (!isNonEmptyString(context[field])) {
+      errors.push(`"contextAnalysis.${field}" must be a non-empty string`);
+    }
+  }
+  for (const field of ['relatedThemes', 'visualConcepts']) {
+    validateStringArray(context[field], `contextAnalysis.${field}`, errors);
+  }
+
+  // Optional, since classifySensitivity also rates the story itself
+  if (context.sensitivity !== undefined) {
+    if (!isObject(context.sensitivity) || !isOneOf(SENSITIVITY_LEVELS, context.sensitivity.level)) {
+      errors.push(`"contextAnalysis.sensitivity.level" must be one of: ${listAllowed(SENSITIVITY_LEVELS)}`);
+    } else {
+      validateStringArray(context.sensitivity.reasons, 'contextAnalysis.sensitivity.reasons', errors);
+    }
+  }
+
+  if (!isObject(context.keyEntities)) {
+    errors.push('"contextAnalysis.keyEntities" must be an object');
+    return;
+  }
+  for (const field of ['people', 'organizations', 'events']) {
+    validateStringArray(context.keyEntities[field], `contextAnalysis.keyEntities.${field}`, errors);
+  }
+}
+
+// The defaults may come at the top level or in the prompt's overallDirection block
+function validateDirection(raw: JsonObject, errors: string[]): void {
+  const direction = raw.overallDirection;
+  if (direction !== undefined && !isObject(direction)) {
+    errors.push('"overallDirection" must be an object');
+    return;
+  }
+
+  const sources: [string, JsonObject][] = [['', raw]];
+  if (direction) {
+    sources.push(['overallDirection.', direction]);
+  }
+  for (const [prefix, source] of sources) {
+    if (source.defaultTransition !== undefined && !isOneOf(TRANSITION_TYPES, source.defaultTransition)) {
+      errors.push(`"${prefix}defaultTransition" must be one of: ${listAllowed(TRANSITION_TYPES)}`);
+    }
+    if (source.defaultEffect !== undefined && !isOneOf(EFFECT_TYPES, source.defaultEffect)) {
+      errors.push(`"${prefix}defaultEffect" must be one of: ${listAllowed(EFFECT_TYPES)}`);
+    }
+    if (source.visualMotifs !== undefined) {
+      validateStringArray(source.visualMotifs, `${prefix}visualMotifs`, errors);
+    }
+  }
+
+  if (!isNonEmptyString(raw.mainVisualTheme) && !isNonEmptyString(direction?.mainVisualTheme)) {
+    errors.push('"overallDirection.mainVisualTheme" must be a non-empty string');
+  }
+}
+
+// People and organizations of the context analysis, lowercased, which name lower-thirds must come from
+function getNamedEntities(context: unknown): Set<string> {
+  const entities = new Set<string>();
+  if (isObject(context) && isObject(context.keyEntities)) {
+    for (const field of ['people', 'organizations']) {
+      const names = context.keyEntities[field];
+      if (Array.isArray(names)) {
+        names.filter(isNonEmptyString).forEach(name => entities.add(name.trim().toLowerCase()));
+      }
+    }
+  }
+  return entities;
+}
+
+function validateScene(
+  scene: unknown,
+  index: number,
+  pacing: ReelPacing,
+  entities: Set<string>,
+  errors: string[]
+): void {
+  const path = `scenes[${index}]`;
+  if (!isObject(scene)) {
+    errors.push(`"${path}" must be an object`);
+    return;
+  }
+
+  const { minSceneDuration, maxSceneDuration } = pacing;
+  if (!isFiniteNumber(scene.duration) || scene.duration <= 0) {
+    errors.push(`"${path}.duration" must be a positive number`);
+  } else if (
+    scene.duration < minSceneDuration - SCENE_DURATION_LEEWAY ||
+    scene.duration > maxSceneDuration + SCENE_DURATION_LEEWAY
+  ) {
+    errors.push(`"${path}.duration" must be ${minSceneDuration}-${maxSceneDuration} seconds, got ${scene.duration}`);
+  }
+
+  if (!isNonEmptyString(scene.description)) {
+    errors.push(`"${path}.description" must be a non-empty string`);
+  }
+  if (!isNonEmptyString(scene.mood)) {
+    errors.push(`"${path}.mood" must be a non-empty string`);
+  }
+  if (!Array.isArray(scene.primaryKeywords) || !scene.primaryKeywords.some(isNonEmptyString)) {
+    errors.push(`"${path}.primaryKeywords" must contain at least one search keyword`);
+  } else {
+    validateStringArray(scene.primaryKeywords, `${path}.primaryKeywords`, errors);
+  }
+  validateStringArray(scene.secondaryKeywords, `${path}.secondaryKeywords`, errors);
+
+  if (!isOneOf(VISUAL_TYPES, scene.visualType)) {
+    errors.push(`"${path}.visualType" must be one of: ${listAllowed(VISUAL_TYPES)}`);
+  }
+
+  if (scene.visualType === 'overlay') {
+    validateTextCard(scene.textCard, path, errors);
+  } else if (scene.lowerThird !== undefined) {
+    validateLowerThird(scene.lowerThird, path, entities, errors);
+  }
+
+  if (scene.transition !== undefined) {
+    if (!isObject(scene.transition)) {
+      errors.push(`"${path}.transition" must be an object`);
+    } else {
+      const { type, duration } = scene.transition;
+      if (type !== undefined && !isOneOf(TRANSITION_TYPES, type)) {
+        errors.push(`"${path}.transition.type" must be one of: ${listAllowed(TRANSITION_TYPES)}, got "${type}"`);
+      }
+      if (duration !== undefined && (!isFiniteNumber(duration) || duration < 0 || duration > 2)) {
+        errors.push(`"${path}.transition.duration" must be a number of seconds between 0 and 2`);
+      }
+    }
+  }
+
+  if (scene.effect !== undefined) {
+    if (!isObject(scene.effect)) {
+      errors.push(`"${path}.effect" must be an object`);
+    } else {
+      const { type, intensity } = scene.effect;
+      if (type !== undefined && !isOneOf(EFFECT_TYPES, type)) {
+        errors.push(`"${path}.effect.type" must be one of: ${listAllowed(EFFECT_TYPES)}, got "${type}"`);
+      }
+      if (intensity !== undefined && (!isFiniteNumber(intensity) || intensity < 0 || intensity > 1)) {
+        errors.push(`"${path}.effect.intensity" must be a number between 0 and 1`);
+      }
+    }
+  }
+}
+
+function validateTextCard(card: unknown, path: string, errors: string[]): void {
+  if (!isObject(card)) {
+    errors.push(`"${path}.textCard" is required for overlay scenes and must be an object`);
+    return;
+  }
+
+  const hasStyle = isOneOf(TEXT_CARD_STYLES, card.style);
+  if (!hasStyle) {
+    errors.push(`"${path}.textCard.style" must be one of: ${listAllowed(TEXT_CARD_STYLES)}`);
+  }
+  if (!isNonEmptyString(card.text)) {
+    errors.push(`"${path}.textCard.text" must be a non-empty string`);
+  } else if (hasStyle && card.text.length > MAX_TEXT_CARD_LENGTH[card.style as TextCardStyle]) {
+    errors.push(`"${path}.textCard.text" must be at most ${MAX_TEXT_CARD_LENGTH[card.style as TextCardStyle]} characters for a ${card.style} card`);
+  }
+  if (card.subtext !== undefined && (typeof card.subtext !== 'string' || card.subtext.length > MAX_TEXT_CARD_SUBTEXT_LENGTH)) {
+    errors.push(`"${path}.textCard.subtext" must be a string of at most ${MAX_TEXT_CARD_SUBTEXT_LENGTH} characters`);
+  }
+}
+
+function validateLowerThird(lowerThird: unknown, path: string, entities: Set<string>, errors: string[]): void {
+  if (!isObject(lowerThird)) {
+    errors.push(`"${path}.lowerThird" must be an object`);
+    return;
+  }
+
+  const { kind, text, subtext } = lowerThird;
+  const hasKind = isOneOf(LOWER_THIRD_KINDS, kind);
+  if (!hasKind) {
+    errors.push(`"${path}.lowerThird.kind" must be one of: ${listAllowed(LOWER_THIRD_KINDS)}`);
+  }
+  if (!isNonEmptyString(text)) {
+    errors.push(`"${path}.lowerThird.text" must be a non-empty string`);
+  } else if (hasKind && text.length > MAX_LOWER_THIRD_LENGTH[kind as LowerThirdKind]) {
+    errors.push(`"${path}.lowerThird.text" must be at most ${MAX_LOWER_THIRD_LENGTH[kind as LowerThirdKind]} characters for a ${kind}`);
+  } else if (kind === 'name' && !entities.has(text.trim().toLowerCase())) {
+    errors.push(`"${path}.lowerThird.text" must be one of the people or organizations in "contextAnalysis.keyEntities", got "${text}"`);
+  }
+
+  if (kind === 'quote' && !isNonEmptyString(subtext)) {
+    errors.push(`"${path}.lowerThird.subtext" must name the source of the quote`);
+  } else if (subtext !== undefined && (typeof subtext !== 'string' || subtext.length > MAX_LOWER_THIRD_SUBTEXT_LENGTH)) {
+    errors.push(`"${path}.lowerThird.subtext" must be a string of at most ${MAX_LOWER_THIRD_SUBTEXT_LENGTH} characters`);
+  }
+}
+
+// The scenes' narration, read in order, must be the script word for word
+function validateNarration(scenes: unknown[], script: string, errors: string[]): void {
+  const scriptTokens = tokenizeNarration(script);
+  let position = 0;
+
+  for (const [index, scene] of scenes.entries()) {
+    const narration = isObject(scene) ? scene.narration : undefined;
+    if (!isNonEmptyString(narration)) {
+      errors.push(`"scenes[${index}].narration" must be the non-empty script text spoken during the scene`);
+      return;
+    }
+
+    const tokens = tokenizeNarration(narration);
+    const mismatch = tokens.findIndex((token, offset) => scriptTokens[position + offset] !== token);
+    if (mismatch !== -1) {
+      const expected = scriptTokens.slice(position, position + Math.max(tokens.length, 8)).join(' ');
+      errors.push(
+        `"scenes[${index}].narration" must continue the script verbatim from where the previous scene ended: "${expected}..."`
+      );
+      return;
+    }
+    position += tokens.length;
+  }
+
+  if (position < scriptTokens.length) {
+    const missing = scriptTokens.slice(position, position + 8).join(' ');
+    errors.push(`The scenes' narration must cover the whole script, but stops before "${missing}..."`);
+  }
+}
+
+function validateStringArray(value: unknown, path: string, errors: string[]): void {
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    errors.push(`"${path}" must be an array of strings`);
+  }
+}
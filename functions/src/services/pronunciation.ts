@@ -0,0 +1,208 @@
+import * as admin from 'firebase-admin';
+import { FieldValue } from 'firebase-admin/firestore';
+import { createHash } from 'crypto';
+import { NarrationWord, PronunciationEntry, PronunciationScope } from '../types';
+import { LanguageConfig } from '../utils';
+
+const MAX_TERM_LENGTH = 60;
+const MAX_PRONUNCIATION_LENGTH = 120;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const hasWordCharacters = (text: string) => /[\p{L}\p{N}]/u.test(text);
+
+/**
+ * Checks a pronunciation sent to the callables
+ * @param data - Request data with term, alias and phoneme
+ * @returns The entry, or the reason it is invalid
+ */
+export function parsePronunciation(data: any): { entry: PronunciationEntry } | { error: string } {
+  const term = typeof data?.term === 'string' ? data.term.trim() : '';
+  if (!term || term.length > MAX_TERM_LENGTH) {
+    return { error: `Term must be 1-${MAX_TERM_LENGTH} characters` };
+  }
+
+  const alias = typeof data.alias === 'string' ? data.alias.trim() : '';
+  const phoneme = typeof data.phoneme === 'string' ? data.phoneme.trim() : '';
+  if (!alias === !phoneme) {
+    return { error: 'Exactly one of alias and phoneme is required' };
+  }
+  const pronunciation = alias || phoneme;
+  if (pronunciation.length > MAX_PRONUNCIATION_LENGTH) {
+    return { error: `Pronunciation must be at most ${MAX_PRONUNCIATION_LENGTH} characters` };
+  }
+  // Both end up in the text sent to ElevenLabs, where markup would break the phoneme tags
+  if (/[<>]/.test(term)) {
+    return { error: 'Term must not contain < or >' };
+  }
+  if (/[<>"]/.test(pronunciation)) {
+    return { error: 'Pronunciation must not contain <, > or "' };
+  }
+  return { entry: alias ? { term, alias } : { term, phoneme } };
+}
+
+/**
+ * Text spoken in place of a term: its alias, or the term wrapped in an IPA phoneme tag
+ * @param entry - Pronunciation of the term
+ */
+export function getSpokenForm(entry: PronunciationEntry): string {
+  return entry.phoneme
+    ? `<phoneme alphabet="ipa" ph="${entry.phoneme}">${entry.term}</phoneme>`
+    : entry.alias ?? entry.term;
+}
+
+/**
+ * Replaces every whole-word occurrence of a lexicon term with its spoken form.
+ * Longer terms win, so "Xi Jinping" is replaced before "Xi".
+ * @param text - Script text
+ * @param lexicon - Pronunciations to apply
+ */
+export function applyLexicon(text: string, lexicon: PronunciationEntry[]): string {
+  if (lexicon.length === 0) {
+    return text;
+  }
+  const byTerm = new Map(lexicon.map(entry => [entry.term, entry]));
+  const terms = [...byTerm.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.join('|')})(?![\\p{L}\\p{N}])`, 'gu');
+  return text.replace(pattern, term => getSpokenForm(byTerm.get(term)!));
+}
+
+/**
+ * Puts the original spelling back into timed words of a voiceover made from
+ * text with applied pronunciations, so captions show "Zelenskyy" rather than
+ * its alias. Words of a multi-word alias are merged into one.
+ * @param words - Timed words of the spoken text
+ * @param lexicon - Pronunciations that were applied
+ */
+export function restoreSpelling(words: NarrationWord[], lexicon: PronunciationEntry[]): NarrationWord[] {
+  if (lexicon.length === 0) {
+    return words;
+  }
+  const forms = lexicon
+    .map(entry => ({ term: entry.term, tokens: getSpokenForm(entry).split(/\s+/) }))
+    .sort((a, b) => b.tokens.length - a.tokens.length);
+
+  const restored: NarrationWord[] = [];
+  for (let i = 0; i < words.length;) {
+    let merged = false;
+    for (const form of forms) {
+      const match = matchSpokenForm(words, i, form.tokens);
+      if (match) {
+        const last = words[i + form.tokens.length - 1];
+        restored.push({ word: `${match.prefix}${form.term}${match.suffix}`, start: words[i].start, end: last.end });
+        i += form.tokens.length;
+        merged = true;
+        break;
+      }
+    }
+    if (!merged) {
+      restored.push(words[i]);
+      i++;
+    }
+  }
+  return restored;
+}
+
+// Whether the words starting at index spell out the tokens, allowing punctuation around them
+function matchSpokenForm(
+  words: NarrationWord[],
+  index: number,
+  tokens: string[]
+): { prefix: string; suffix: string } | null {
+  if (index + tokens.length > words.length) {
+    return null;
+  }
+  const first = words[index].word;
+  const last = words[index + tokens.length - 1].word;
+  const firstAt = tokens.length === 1 ? first.indexOf(tokens[0]) : first.length - tokens[0].length;
+  if (firstAt < 0 || !first.startsWith(tokens[0], firstAt)) {
+    return null;
+  }
+  for (let j = 1; j < tokens.length - 1; j++) {
+    if (words[index + j].word !== tokens[j]) {
+      return null;
+    }
+  }
+  if (tokens.length > 1 && !last.startsWith(tokens[tokens.length - 1])) {
+    return null;
+  }
+
+  const prefix = first.slice(0, firstAt);
+  const suffix = tokens.length === 1
+    ? first.slice(firstAt + tokens[0].length)
+    : last.slice(tokens[tokens.length - 1].length);
+  // Only punctuation may surround the spoken form, so "Nay" does not match inside "Nayeli"
+  return hasWordCharacters(prefix) || hasWordCharacters(suffix) ? null : { prefix, suffix };
+}
+
+/**
+ * Pronunciation lexicons in Firestore: a global one in pronunciations and one
+ * per user in users/{uid}/pronunciations, keyed by a hash of the term
+ */
+export class PronunciationStore {
+  private collection(scope: PronunciationScope, userId: string) {
+    return scope === 'global'
+      ? admin.firestore().collection('pronunciations')
+      : admin.firestore().collection('users').doc(userId).collection('pronunciations');
+  }
+
+  private docId(term: string): string {
+    return createHash('sha256').update(term, 'utf8').digest('hex').slice(0, 32);
+  }
+
+  /**
+   * Lists the entries of a lexicon
+   * @param scope - Global or the user's own lexicon
+   * @param userId - User the lexicon belongs to
+   */
+  async list(scope: PronunciationScope, userId: string): Promise<PronunciationEntry[]> {
+    const snapshot = await this.collection(scope, userId).orderBy('term').get();
+    return snapshot.docs.map(doc => {
+      const data = doc.data();
+      return { ...data, updatedAt: data.updatedAt?.toDate?.() ?? data.updatedAt } as PronunciationEntry;
+    });
+  }
+
+  /**
+   * Adds a pronunciation, or replaces the one of the same term
+   * @param entry - Validated pronunciation
+   * @param scope - Global or the user's own lexicon
+   * @param userId - User the lexicon belongs to
+   */
+  async set(entry: PronunciationEntry, scope: PronunciationScope, userId: string): Promise<void> {
+    await this.collection(scope, userId).doc(this.docId(entry.term)).set({
+      ...entry,
+      updatedAt: FieldValue.serverTimestamp()
+    });
+  }
+
+  /**
+   * Removes the pronunciation of a term
+   * @param term - Term as it was added
+   * @param scope - Global or the user's own lexicon
+   * @param userId - User the lexicon belongs to
+   * @returns Whether the term had a pronunciation
+   */
+  async delete(term: string, scope: PronunciationScope, userId: string): Promise<boolean> {
+    const ref = this.collection(scope, userId).doc(this.docId(term));
+    const snapshot = await ref.get();
+    if (!snapshot.exists) {
+      return false;
+    }
+    await ref.delete();
+    return true;
+  }
+
+  /**
+   * Lexicon for a user's reel: the global entries, overridden by the user's
+   * own. Phoneme entries are left out of non-English reels, whose model
+   * cannot read phoneme tags.
+   * @param userId - Owner of the reel
+   * @param language - Language of the narration
+   */
+  async getLexicon(userId: string, language: LanguageConfig): Promise<PronunciationEntry[]> {
+    const [global, user] = await Promise.all([this.list('global', userId), this.list('user', userId)]);
+    const byTerm = new Map<string, PronunciationEntry>();
+    [...global, ...user].forEach(entry => byTerm.set(entry.term, { term: entry.term, alias: entry.alias, phoneme: entry.phoneme }));
+    return [...byTerm.values()].filter(entry => !entry.phoneme || language.code === 'en');
+  }
+}
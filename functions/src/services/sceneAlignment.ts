@@ -0,0 +1,166 @@
+import { NarrationWord, VideoScene } from '../types';
+
+// How many transcript words to look ahead for a script word; covers words the
+// transcript spells differently ("5" for "five") without losing the thread
+const MATCH_LOOKAHEAD = 6;
+// Below this share of matched script words the timestamps are not trusted
+const MIN_MATCH_RATIO = 0.6;
+const MIN_SCENE_DURATION = 1;
+// Cut to a scene's shot slightly before its first word is spoken
+const CUT_LEAD = 0.15;
+
+export type NarrationAlignment =
+  | { aligned: true; scenes: VideoScene[] }
+  | { aligned: false; reason: string };
+
+/**
+ * Removes what is not spoken from a script: section headers in brackets such
+ * as [HOOK] or [KEY POINT 1], and empty lines. The voiceover is generated
+ * from this text, so narration is checked and aligned against it too
+ * @param script - Script as written
+ */
+export function cleanScript(script: string): string {
+  return script
+    .replace(/\[.*?\]\s*/g, '')
+    .replace(/^\s*[\r\n]/gm, '')
+    .trim();
+}
+
+/**
+ * Splits text into lowercase words without punctuation, so script text and
+ * transcribed words can be compared
+ * @param text - Script or narration text
+ */
+export function tokenizeNarration(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .split(/[^\p{L}\p{M}\p{N}]+/u) // Marks belong to the word, e.g. Devanagari vowel signs
+    .filter(token => token.length > 0);
+}
+
+/**
+ * Finds where each scene's narration starts in the script
+ * @param scenes - Scenes with their narration text
+ * @param scriptTokens - Tokenized script
+ * @returns Token index of each scene's first word, or null if a scene's narration is not in the script
+ */
+function findSceneStarts(scenes: VideoScene[], scriptTokens: string[]): number[] | null {
+  const starts: number[] = [];
+  let position = 0;
+
+  for (const scene of scenes) {
+    const tokens = tokenizeNarration(scene.narration ?? '');
+    if (tokens.length === 0) {
+      return null;
+    }
+    const probe = tokens.slice(0, 3);
+    let start = -1;
+    for (let i = position; i <= scriptTokens.length - probe.length; i++) {
+      if (probe.every((token, offset) => scriptTokens[i + offset] === token)) {
+        start = i;
+        break;
+      }
+    }
+    if (start === -1) {
+      return null;
+    }
+    starts.push(start);
+    position = start + tokens.length;
+  }
+  return starts;
+}
+
+/**
+ * Matches each script word to a transcribed word, walking both in order
+ * @returns Transcript word index per script word (undefined where unmatched)
+ */
+function matchWords(scriptTokens: string[], words: NarrationWord[]): (number | undefined)[] {
+  const transcript = words.map(word => tokenizeNarration(word.word).join(''));
+  const matches: (number | undefined)[] = [];
+  let next = 0;
+
+  for (const token of scriptTokens) {
+    let match: number | undefined;
+    for (let i = next; i < Math.min(transcript.length, next + MATCH_LOOKAHEAD); i++) {
+      if (transcript[i] === token) {
+        match = i;
+        break;
+      }
+    }
+    matches.push(match);
+    if (match !== undefined) {
+      next = match + 1;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Times each scene to the moment its narration is spoken, instead of scaling
+ * the planned durations to the voiceover length. Scene boundaries come from
+ * the word timestamps of the first word of each scene's narration.
+ * @param scenes - Planned scenes with their narration text
+ * @param script - Cleaned script the voiceover was generated from (see cleanScript)
+ * @param words - Timed words of the voiceover transcript
+ * @param voiceoverDuration - Length of the voiceover in seconds
+ * @returns Scenes with start times and durations, or why the narration
+ *   cannot be aligned (e.g. a plan without narration), so callers can fall
+ *   back to proportional timing
+ */
+export function alignScenesToNarration(
+  scenes: VideoScene[],
+  script: string,
+  words: NarrationWord[],
+  voiceoverDuration: number
+): NarrationAlignment {
+  const scriptTokens = tokenizeNarration(script);
+  const sceneStarts = findSceneStarts(scenes, scriptTokens);
+  if (!sceneStarts) {
+    return { aligned: false, reason: 'A scene has no narration or its narration is not in the script' };
+  }
+  if (words.length === 0) {
+    return { aligned: false, reason: 'The transcript has no words' };
+  }
+
+  const matches = matchWords(scriptTokens, words);
+  const matched = matches.filter(match => match !== undefined).length;
+  if (matched / scriptTokens.length < MIN_MATCH_RATIO) {
+    return { aligned: false, reason: `Only ${matched} of ${scriptTokens.length} script words found in the transcript` };
+  }
+
+  // Time a script word was spoken; unmatched words are interpolated between their matched neighbours
+  const timeOfToken = (index: number): number => {
+    let before = index;
+    while (before >= 0 && matches[before] === undefined) before--;
+    let after = index;
+    while (after < matches.length && matches[after] === undefined) after++;
+
+    const beforeTime = before >= 0 ? words[matches[before] as number].start : 0;
+    const afterTime = after < matches.length ? words[matches[after] as number].start : voiceoverDuration;
+    if (before === index) {
+      return beforeTime;
+    }
+    const span = (after < matches.length ? after : scriptTokens.length) - Math.max(before, 0);
+    return beforeTime + (afterTime - beforeTime) * (index - Math.max(before, 0)) / Math.max(1, span);
+  };
+
+  const boundaries = sceneStarts.map((start, index) =>
+    index === 0 ? 0 : Math.max(0, timeOfToken(start) - CUT_LEAD)
+  );
+  for (let i = 1; i < boundaries.length; i++) {
+    boundaries[i] = Math.max(boundaries[i], boundaries[i - 1] + MIN_SCENE_DURATION);
+  }
+  if (boundaries[boundaries.length - 1] + MIN_SCENE_DURATION > voiceoverDuration) {
+    return { aligned: false, reason: 'Aligned scenes do not fit the voiceover' };
+  }
+
+  return {
+    aligned: true,
+    scenes: scenes.map((scene, index) => {
+      const startTime = boundaries[index];
+      const endTime = index + 1 < boundaries.length ? boundaries[index + 1] : voiceoverDuration;
+      return { ...scene, startTime, duration: endTime - startTime };
+    })
+  };
+}
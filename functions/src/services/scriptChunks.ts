@@ -0,0 +1,54 @@
+// Scripts longer than this are synthesized in chunks, split at sentence ends
+const MAX_CHUNK_CHARS = 700;
+// Shorter paragraphs are joined with the next one instead of getting their own chunk
+const MIN_CHUNK_CHARS = 200;
+// Silence inserted between stitched chunks, in seconds
+const SENTENCE_PAUSE = 0.25;
+const PARAGRAPH_PAUSE = 0.5;
+
+export interface ScriptChunk {
+  index: number;
+  text: string;
+  pauseAfter: number; // Seconds of silence before the next chunk
+}
+
+/**
+ * Splits the script into chunks of whole sentences. Paragraphs end a chunk
+ * once it is long enough; a short script stays a single chunk.
+ * @param script - Cleaned script, one paragraph per line
+ */
+export function splitScript(script: string): ScriptChunk[] {
+  const chunks: ScriptChunk[] = [];
+  let current = '';
+  let separator = ' ';
+  const flush = (pauseAfter: number) => {
+    if (current) {
+      chunks.push({ index: chunks.length, text: current, pauseAfter });
+      current = '';
+    }
+  };
+
+  const paragraphs = script.split(/\n+/).map(paragraph => paragraph.trim()).filter(paragraph => paragraph);
+  for (const paragraph of paragraphs) {
+    // Sentence ends of the supported languages, including closing quotes
+    const sentences = paragraph.split(/(?<=[.!?؟।॥]["'”’)]*)\s+/);
+    for (const sentence of sentences) {
+      if (current && current.length + separator.length + sentence.length > MAX_CHUNK_CHARS) {
+        flush(separator === '\n' ? PARAGRAPH_PAUSE : SENTENCE_PAUSE);
+      }
+      current = current ? `${current}${separator}${sentence}` : sentence;
+      separator = ' ';
+    }
+    if (current.length >= MIN_CHUNK_CHARS) {
+      flush(PARAGRAPH_PAUSE);
+    } else {
+      separator = '\n';
+    }
+  }
+  flush(0);
+
+  if (chunks.length > 0) {
+    chunks[chunks.length - 1].pauseAfter = 0;
+  }
+  return chunks;
+}
@@ -0,0 +1,118 @@
+import {
+  ContextAnalysis,
+  SensitivityAssessment,
+  SensitivityLevel,
+  SensitivityOverride,
+  TransitionType,
+  VideoAnalysis,
+  VideoEffect
+} from '../types';
+
+const LEVEL_RANK: Record<SensitivityLevel, number> = {
+  none: 0,
+  sensitive: 1,
+  tragic: 2
+};
+
+// Terms in the context analysis that point to a sensitive story the model
+// rated as a regular one. Matched as whole words, so the model's own rating
+// covers non-English plans. Words with everyday meanings ("crash", "war",
+// "shooting", "crisis") are left out, since a market crash or a price war is
+// no reason to mute a reel.
+const SENSITIVE_TERMS = [
+  'death', 'deaths', 'died', 'killed', 'killing', 'killings', 'fatal', 'fatalities', 'funeral', 'mourning',
+  'murder', 'murdered', 'massacre', 'genocide', 'suicide', 'bombing', 'terrorist', 'victims', 'casualties',
+  'obituary', 'disaster', 'earthquake', 'tsunami', 'wildfire', 'hurricane', 'tornado', 'famine', 'injured',
+  'injuries', 'violence', 'abuse', 'assault', 'hostage', 'refugees', 'evacuation', 'pandemic', 'epidemic',
+  'tragedy', 'grief'
+];
+// Distinct terms needed to overrule the model; a single word is too little to go on
+const MIN_MATCHED_TERMS = 2;
+
+// Only fades and cuts
+const RESTRAINED_TRANSITIONS: TransitionType[] = ['fade', 'crossfade', 'none'];
+// Slow camera moves and vignettes; no color grading, blur or high-contrast looks
+const RESTRAINED_EFFECTS: VideoEffect[] = [
+  'none', 'ken_burns', 'zoom_in', 'zoom_out', 'pan_left', 'pan_right', 'tilt_up', 'tilt_down', 'vignette'
+];
+const MAX_RESTRAINED_INTENSITY = 0.5;
+
+const toWords = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 0);
+
+/**
+ * Rates how sensitive a story is. The model's own rating is trusted; terms in
+ * the context analysis only raise a story the model rated as regular to
+ * sensitive, and only when several of them point that way. Tragic stories,
+ * which lose their music, are never inferred from keywords.
+ * @param context - Context analysis of the plan
+ */
+export function classifySensitivity(context: ContextAnalysis): SensitivityAssessment {
+  const rated = context.sensitivity;
+  const level: SensitivityLevel = rated && Object.prototype.hasOwnProperty.call(LEVEL_RANK, rated.level) ? rated.level : 'none';
+  const reasons = [...(rated?.reasons ?? [])];
+  if (level !== 'none') {
+    return { level, reasons };
+  }
+
+  const words = new Set(toWords([
+    context.mainTopic,
+    context.category,
+    context.mood,
+    ...context.relatedThemes,
+    ...context.visualConcepts,
+    ...context.keyEntities.events
+  ].join(' ')));
+  const matched = SENSITIVE_TERMS.filter(term => words.has(term));
+  if (matched.length < MIN_MATCHED_TERMS) {
+    return { level, reasons };
+  }
+  return { level: 'sensitive', reasons: [...reasons, `Story mentions ${matched.slice(0, 3).join(', ')}`] };
+}
+
+/**
+ * Restrains the style of a plan for a sensitive story: transitions become
+ * fades or cuts, flashy effects are dropped and the music turns somber, or
+ * off for tragic stories. Plans of regular stories are returned unchanged.
+ * @param analysis - Validated plan
+ * @returns The plan with its sensitivity rating, and the override if one was applied
+ */
+export function applySensitivityProfile(
+  analysis: VideoAnalysis
+): { analysis: VideoAnalysis; override: SensitivityOverride | null } {
+  const assessment = classifySensitivity(analysis.contextAnalysis);
+  const contextAnalysis = { ...analysis.contextAnalysis, sensitivity: assessment };
+  if (assessment.level === 'none') {
+    return { analysis: { ...analysis, contextAnalysis }, override: null };
+  }
+
+  let transitionsReplaced = 0;
+  let effectsReplaced = 0;
+  const scenes = analysis.scenes.map(scene => {
+    let { transition, effect } = scene;
+    if (!RESTRAINED_TRANSITIONS.includes(transition.type)) {
+      transition = { ...transition, type: 'fade' };
+      transitionsReplaced++;
+    }
+    if (!RESTRAINED_EFFECTS.includes(effect.type)) {
+      effect = { ...effect, type: 'none' };
+      effectsReplaced++;
+    } else if ((effect.intensity ?? 0) > MAX_RESTRAINED_INTENSITY) {
+      effect = { ...effect, intensity: MAX_RESTRAINED_INTENSITY };
+      effectsReplaced++;
+    }
+    return { ...scene, transition, effect };
+  });
+
+  const music = assessment.level === 'tragic' ? 'none' : 'somber';
+  return {
+    analysis: {
+      ...analysis,
+      contextAnalysis,
+      scenes,
+      defaultTransition: RESTRAINED_TRANSITIONS.includes(analysis.defaultTransition) ? analysis.defaultTransition : 'fade',
+      defaultEffect: RESTRAINED_EFFECTS.includes(analysis.defaultEffect) ? analysis.defaultEffect : 'none',
+      musicMood: music === 'none' ? undefined : 'somber'
+    },
+    override: { ...assessment, transitionsReplaced, effectsReplaced, music }
+  };
+}
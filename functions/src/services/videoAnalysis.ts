@@ -1,19 +1,64 @@
-import OpenAI from 'openai';
-import { VideoAnalysis, ReelTone } from '../types';
+import { VideoAnalysis, ReelTone, TransitionType, VideoEffect } from '../types';
 import * as admin from 'firebase-admin';
-import config from '../config';
+import { InvalidPlanError, LanguageConfig, toProviderError } from '../utils';
+import { ReelPacing, describePacing } from './pacing';
+import { PlanValidationResult, validatePlan } from './planValidation';
+import { LlmMessage, LlmProvider, createLlmProvider } from './llm';
 
-const openai = new OpenAI({
-  apiKey: config.openai.apiKey
-});
+// Used when the plan does not name its own defaults
+const FALLBACK_TRANSITION: TransitionType = 'fade';
+const FALLBACK_EFFECT: VideoEffect = 'none';
+const FALLBACK_TRANSITION_DURATION = 0.5;
+// Model responses per analysis; each retry sends back the errors of the previous plan
+const MAX_PLAN_ATTEMPTS = 3;
+// Stored with every analysis; bump when a prompt change can change the plans it produces
+export const PROMPT_VERSION = 2;
+
+// Plan as the model returns it; the prompt asks for the plan-wide fields in an overallDirection block
+type RawPlan = VideoAnalysis & { overallDirection?: Partial<VideoAnalysis> };
 
 export class VideoAnalysisService {
-  private createSystemPrompt(): string {
-    return `You are an expert video producer specializing in creating 30-second news reels using stock footage from Pixabay. Your expertise includes sports journalism, current events, and viral content.
+  /**
+   * @param llm - Model to plan with; defaults to the providers configured for this environment
+   */
+  constructor(private readonly llm: LlmProvider = createLlmProvider()) {}
+
+  /**
+   * Lifts the prompt's `overallDirection` block onto the analysis and fills in
+   * scene transitions and effects the model left out with the plan's defaults
+   * @param analysis - Parsed model response
+   */
+  private applyOverallDirection(analysis: RawPlan): VideoAnalysis {
+    const { overallDirection: direction = {}, ...plan } = analysis;
+    const defaultTransition = plan.defaultTransition ?? direction.defaultTransition ?? FALLBACK_TRANSITION;
+    const defaultEffect = plan.defaultEffect ?? direction.defaultEffect ?? FALLBACK_EFFECT;
+
+    return {
+      ...plan,
+      mainVisualTheme: plan.mainVisualTheme ?? direction.mainVisualTheme ?? '',
+      musicMood: plan.musicMood ?? direction.musicMood,
+      captionStyle: plan.captionStyle ?? direction.captionStyle,
+      visualMotifs: plan.visualMotifs ?? direction.visualMotifs ?? [],
+      defaultTransition,
+      defaultEffect,
+      scenes: plan.scenes.map(scene => ({
+        ...scene,
+        transition: scene.transition?.type
+          ? scene.transition
+          : { ...scene.transition, type: defaultTransition, duration: scene.transition?.duration ?? FALLBACK_TRANSITION_DURATION },
+        effect: scene.effect?.type
+          ? scene.effect
+          : { ...scene.effect, type: defaultEffect }
+      }))
+    };
+  }
+
+  private createSystemPrompt(pacing: ReelPacing): string {
+    return `You are an expert video producer specializing in creating ${pacing.targetDuration}-second news reels using stock footage from Pixabay. Your expertise includes sports journalism, current events, and viral content.
 
     CRITICAL REQUIREMENTS:
-    1. Total video duration MUST be between 25-35 seconds
-    2. MUST create 7-10 distinct scenes
+    1. Total video duration MUST be between ${pacing.minDuration}-${pacing.maxDuration} seconds
+    2. MUST create ${pacing.minScenes}-${pacing.maxScenes} distinct scenes
     3. Each scene MUST have stock-footage-friendly keywords
     4. All visuals MUST be obtainable from Pixabay
 
@@ -26,9 +71,10 @@ export class VideoAnalysisService {
        - Include emotional/atmospheric terms (e.g., "dramatic", "energetic")
 
     2. Scene timing:
-       - Each scene should be 2-5 seconds
-       - Total of all scenes MUST sum to 25-35 seconds
+       - Each scene should be ${pacing.minSceneDuration}-${pacing.maxSceneDuration} seconds
+       - Total of all scenes MUST sum to ${pacing.minDuration}-${pacing.maxDuration} seconds
        - Timing should feel natural and match content pacing
+       - ${describePacing(pacing)}
 
     3. Visual continuity:
        - Scenes should flow logically
@@ -40,7 +86,7 @@ export class VideoAnalysisService {
     - b-roll: Stock footage of events, locations, or actions
     - static: Still images or slow-moving shots
     - talking: People speaking or reacting
-    - overlay: Text or graphic overlays
+    - overlay: Text card (headline, key figure or quote) over a blurred background image; requires "textCard"
 
     Available Transitions:
     - fade: Simple fade transition (good for emotional moments)
@@ -70,16 +116,30 @@ export class VideoAnalysisService {
     Entertainment: Creative transitions (glitch, flash) + dramatic effects`;
   }
 
-  private createAnalysisPrompt(script: string, tone: ReelTone): string {
-    return `Create a 30-second video reel breakdown for this script using Pixabay stock footage. Match the ${tone} tone.
+  // Stock libraries are searched in English whatever language the reel is in
+  private createLanguageInstructions(language: LanguageConfig): string {
+    if (language.code === 'en') {
+      return '';
+    }
+    return `
+    LANGUAGE:
+    - The script is in ${language.name}. Copy "narration" verbatim in ${language.name}, exactly as written in the script
+    - Write "description", "mood", "textCard", "lowerThird" and the "contextAnalysis" texts in ${language.name}
+    - Write ALL "primaryKeywords", "secondaryKeywords", "visualMotifs" and "mainVisualTheme" in ENGLISH, translated from the script, because the stock footage libraries are searched in English
+    - Keep names of people, places and organizations in their common English spelling in keywords
+`;
+  }
+
+  private createAnalysisPrompt(script: string, tone: ReelTone, pacing: ReelPacing, language: LanguageConfig): string {
+    return `Create a ${pacing.targetDuration}-second video reel breakdown for this script using Pixabay stock footage. Match the ${tone} tone.
 
     SCRIPT TO ANALYZE:
     "${script}"
-
+${this.createLanguageInstructions(language)}
     REQUIREMENTS:
-    - Total duration: 25-35 seconds
-    - Number of scenes: 7-10
-    - Each scene: 2-5 seconds
+    - Total duration: ${pacing.minDuration}-${pacing.maxDuration} seconds
+    - Number of scenes: ${pacing.minScenes}-${pacing.maxScenes}
+    - Each scene: ${pacing.minSceneDuration}-${pacing.maxSceneDuration} seconds
     - Must use obtainable stock footage
 
     CRITICAL: You must respond with a valid JSON object with EXACTLY this structure:
@@ -95,17 +155,32 @@ export class VideoAnalysisService {
         "relatedThemes": ["string"],
         "visualConcepts": ["string"],
         "targetAudience": "string",
-        "mood": "string"
+        "mood": "string",
+        "sensitivity": {
+          "level": "none" | "sensitive" | "tragic",
+          "reasons": ["string"]
+        }
       },
       "scenes": [
         {
           "startTime": number,
           "duration": number,
+          "narration": "string",
           "description": "string",
           "primaryKeywords": ["string"],
           "secondaryKeywords": ["string"],
           "mood": "string",
           "visualType": "b-roll" | "static" | "talking" | "overlay",
+          "textCard": {
+            "style": "headline" | "stat" | "quote",
+            "text": "string",
+            "subtext": "string"
+          },
+          "lowerThird": {
+            "kind": "name" | "quote",
+            "text": "string",
+            "subtext": "string"
+          },
           "transition": {
             "type": "string",
             "duration": number
@@ -128,11 +203,16 @@ export class VideoAnalysisService {
     }
 
     IMPORTANT NOTES:
-    1. The "scenes" array MUST contain 7-10 scenes
-    2. Each scene duration MUST be between 2-5 seconds
-    3. Total duration of all scenes MUST sum to 25-35 seconds
+    1. The "scenes" array MUST contain ${pacing.minScenes}-${pacing.maxScenes} scenes
+    2. Each scene duration MUST be between ${pacing.minSceneDuration}-${pacing.maxSceneDuration} seconds
+    3. Total duration of all scenes MUST sum to ${pacing.minDuration}-${pacing.maxDuration} seconds
     4. All required fields MUST be present
     5. Response MUST be valid JSON
+    6. "narration" is the exact script text spoken during the scene, copied word for word. Read in order, the scenes' narration MUST be the complete script with no gaps, overlaps or changes. Section headers in square brackets such as [HOOK] are not spoken; leave them out of "narration". Prefer whole sentences; split a long sentence at a clause boundary only to reach the scene count
+    7. Each scene's visuals MUST illustrate its own narration, so the shot is on screen while its words are spoken
+    8. Only "overlay" scenes have a "textCard"; omit it for other scenes. Use an overlay for at most one or two scenes whose narration has a striking figure, quote or headline. "text" is the headline (max 70 characters), the figure (max 12 characters, e.g. "42%", "$3.2B") or the quote (max 160 characters); "subtext" is the headline's kicker, the figure's label or the quote's speaker (max 60 characters). Take them from the narration, never invent facts. The keywords of an overlay scene find its background image
+    9. "lowerThird" is optional and never set on overlay scenes. Add one when the narration names a person or organization ("kind": "name", "text": the name exactly as listed in "contextAnalysis.keyEntities", "subtext": their role, e.g. "Fed Chair") or quotes someone ("kind": "quote", "text": the quote, max 120 characters, "subtext": who said it). Introduce each name at most once, in the scene where it is first mentioned
+    10. Rate "sensitivity": "tragic" for stories about deaths, killings or their victims; "sensitive" for disasters, accidents, conflict, violence, serious illness or other distressing news; otherwise "none". Sensitive and tragic stories get only fade, crossfade or none transitions, no color_boost, dramatic or blur_edges effects, and a somber "musicMood", whatever the tone
 
     For the ${tone} tone, ensure:
     ${tone === 'dramatic' ? '- Use intense, high-energy visuals\n- Bold transitions\n- Dynamic effects\n- Emotional impact' :
@@ -140,9 +220,94 @@ export class VideoAnalysisService {
       '- Natural, relaxed visuals\n- Smooth transitions\n- Gentle effects\n- Casual feel'}`;
   }
 
-  async analyzeScript(scriptId: string, tone: ReelTone): Promise<VideoAnalysis> {
+  /**
+   * Requests a plan and re-prompts the model with the validation errors of
+   * each invalid one, so a single bad field does not fail the reel
+   * @param script - Script content
+   * @param tone - Tone of the reel
+   * @param pacing - Length and scene constraints
+   * @param language - Language of the script
+   * @param signal - Optional signal to abort the requests
+   * @throws InvalidPlanError if no attempt produced a valid plan
+   */
+  private async requestValidPlan(
+    script: string,
+    tone: ReelTone,
+    pacing: ReelPacing,
+    language: LanguageConfig,
+    signal?: AbortSignal
+  ): Promise<VideoAnalysis> {
+    const messages: LlmMessage[] = [
+      { role: "system", content: this.createSystemPrompt(pacing) },
+      { role: "user", content: this.createAnalysisPrompt(script, tone, pacing, language) }
+    ];
+
+    let errors: string[] = [];
+    for (let attempt = 1; attempt <= MAX_PLAN_ATTEMPTS; attempt++) {
+      console.log(`Requesting plan from ${this.llm.name} (attempt ${attempt}/${MAX_PLAN_ATTEMPTS})...`);
+      const response = await this.llm.complete({ messages, json: true, signal });
+      console.log(`Received response from ${response.provider} (${response.model})`);
+
+      const jsonString = response.content;
+      console.log('Raw model response content:', jsonString);
+
+      const result = this.parsePlan(jsonString, pacing, script);
+      if (result.valid) {
+        return {
+          ...result.plan,
+          planner: { provider: response.provider, model: response.model, attempts: attempt }
+        };
+      }
+
+      errors = result.errors;
+      console.warn(`Invalid plan on attempt ${attempt}:`, errors);
+      messages.push(
+        { role: "assistant", content: jsonString ?? '' },
+        { role: "user", content: this.createRepairPrompt(errors) }
+      );
+    }
+
+    throw new InvalidPlanError(
+      `No valid plan after ${MAX_PLAN_ATTEMPTS} attempts: ${errors.slice(0, 5).join('; ')}`
+    );
+  }
+
+  private parsePlan(jsonString: string | null, pacing: ReelPacing, script: string): PlanValidationResult {
+    if (!jsonString) {
+      return { valid: false, errors: ['The response was empty'] };
+    }
     try {
-      console.log('Starting script analysis for:', { scriptId, tone });
+      return validatePlan(JSON.parse(jsonString), pacing, script);
+    } catch (parseError: any) {
+      console.error('Failed to parse model response:', parseError);
+      return { valid: false, errors: [`The response is not valid JSON: ${parseError.message}`] };
+    }
+  }
+
+  private createRepairPrompt(errors: string[]): string {
+    return `Your plan does not meet the requirements:
+    ${errors.map(error => `- ${error}`).join('\n    ')}
+
+    Fix every listed problem and respond with the complete corrected JSON object in the same structure. Keep everything that was already correct.`;
+  }
+
+  /**
+   * Breaks a script down into scenes that fit the reel's length and pacing
+   * @param scriptId - ID of the scripts document
+   * @param tone - Tone of the reel
+   * @param pacing - Length and scene constraints, see getReelPacing
+   * @param language - Language of the script; keywords are requested in English regardless
+   * @param signal - Optional signal to abort the request
+   */
+  async analyzeScript(
+    scriptId: string,
+    tone: ReelTone,
+    pacing: ReelPacing,
+    language: LanguageConfig,
+    signal?: AbortSignal
+  ): Promise<VideoAnalysis> {
+    try {
+      console.log('Starting script analysis for:', { scriptId, tone, pacing, language: language.code });
       
       // Verify Firebase Admin is initialized
       if (!admin.apps.length) {
@@ -168,75 +333,30 @@ export class VideoAnalysisService {
       }
       console.log('Retrieved script content:', scriptData.content);
 
-      console.log('Making OpenAI API request...');
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4-turbo-preview",
-        messages: [
-          { role: "system", content: this.createSystemPrompt() },
-          { role: "user", content: this.createAnalysisPrompt(scriptData.content, tone) }
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.7
-      });
-      console.log('Received OpenAI response');
-
-      const jsonString = completion.choices[0].message.content;
-      console.log('Raw OpenAI response content:', jsonString);
-      
-      if (!jsonString) {
-        throw new Error('Invalid response from OpenAI: Empty content');
-      }
-
-      console.log('Attempting to parse JSON response...');
-      let analysis: VideoAnalysis;
-      try {
-        analysis = JSON.parse(jsonString) as VideoAnalysis;
-        console.log('Parsed analysis structure:', {
-          hasContextAnalysis: !!analysis.contextAnalysis,
-          hasScenes: !!analysis.scenes,
-          sceneCount: analysis.scenes?.length,
-          analysisKeys: Object.keys(analysis)
-        });
-      } catch (parseError: any) {
-        console.error('Failed to parse OpenAI response:', parseError);
-        console.error('Invalid JSON response:', jsonString);
-        throw new Error(`Invalid JSON response from OpenAI: ${parseError.message}`);
-      }
-
-      if (!analysis.scenes) {
-        console.error('Invalid analysis structure:', analysis);
-        throw new Error('OpenAI response missing scenes array');
-      }
+      let analysis = await this.requestValidPlan(scriptData.content, tone, pacing, language, signal);
+      analysis = this.applyOverallDirection(analysis);
+      const { minDuration, maxDuration, durationSlack } = pacing;
 
-      console.log('Validating scene count...');
-      // Validate scene count
-      if (analysis.scenes.length < 7 || analysis.scenes.length > 10) {
-        throw new Error(`Scene count must be between 7 and 10, got ${analysis.scenes.length}`);
-      }
-
-      console.log('Validating total duration...');
-      // Validate total duration (25-35 seconds)
+      // validatePlan accepts totals within the slack of the range; stretch those into it
       const totalDuration = analysis.scenes.reduce((sum, scene) => sum + scene.duration, 0);
       
-      // If duration is close to the valid range (within 2 seconds), adjust scene durations
-      if (totalDuration >= 23 && totalDuration < 25) {
+      // If duration is close to the valid range (within the slack), adjust scene durations
+      if (totalDuration >= minDuration - durationSlack && totalDuration < minDuration) {
         console.log(`Adjusting scene durations from ${totalDuration} to match minimum duration...`);
-        const adjustment = (25 - totalDuration) / analysis.scenes.length;
+        const adjustment = (minDuration - totalDuration) / analysis.scenes.length;
         analysis.scenes = analysis.scenes.map(scene => ({
           ...scene,
           duration: scene.duration + adjustment
         }));
         console.log('Adjusted scene durations:', analysis.scenes.map(s => s.duration));
-      } else if (totalDuration > 35 && totalDuration <= 37) {
+      } else if (totalDuration > maxDuration && totalDuration <= maxDuration + durationSlack) {
         console.log(`Adjusting scene durations from ${totalDuration} to match maximum duration...`);
-        const adjustment = (totalDuration - 35) / analysis.scenes.length;
+        const adjustment = (totalDuration - maxDuration) / analysis.scenes.length;
         analysis.scenes = analysis.scenes.map(scene => ({
           ...scene,
           duration: scene.duration - adjustment
         }));
         console.log('Adjusted scene durations:', analysis.scenes.map(s => s.duration));
-      } else if (totalDuration < 23 || totalDuration > 37) {
-        throw new Error(`Total duration must be between 25 and 35 seconds, got ${totalDuration}`);
       }
 
       // Recalculate start times based on adjusted durations
@@ -250,45 +370,11 @@ export class VideoAnalysisService {
         return adjustedScene;
       });
 
-      console.log('Storing context analysis in Firestore...');
-      try {
-        // Create timestamp using FieldValue for more reliability
-        const data = {
-          contextAnalysis: analysis.contextAnalysis,
-          createdAt: admin.firestore.FieldValue.serverTimestamp(),
-          updatedAt: admin.firestore.FieldValue.serverTimestamp()
-        };
-        
-        await db.collection('scriptAnalysis').doc(scriptId).set(data);
-        console.log('Successfully stored context analysis');
-      } catch (firestoreError: any) {
-        // Log detailed error information but don't fail
-        console.error('Failed to store context analysis:', {
-          error: firestoreError,
-          message: firestoreError.message,
-          code: firestoreError.code,
-          details: firestoreError.details
-        });
-        
-        // Fallback to using a regular Date object if FieldValue fails
-        try {
-          const fallbackData = {
-            contextAnalysis: analysis.contextAnalysis,
-            createdAt: new Date(),
-            updatedAt: new Date()
-          };
-          await db.collection('scriptAnalysis').doc(scriptId).set(fallbackData);
-          console.log('Successfully stored context analysis using fallback timestamp');
-        } catch (fallbackError) {
-          console.error('Failed to store context analysis with fallback timestamp:', fallbackError);
-        }
-      }
-
       console.log('Analysis complete:', analysis);
       return analysis;
     } catch (error: any) {
       console.error('Error analyzing script:', error);
-      throw new Error(`Failed to analyze script: ${error.message}`);
+      throw toProviderError(error, this.llm.name, 'Failed to analyze script');
     }
   }
 } 
\ No newline at end of file
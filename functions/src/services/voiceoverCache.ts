@@ -0,0 +1,109 @@
+import * as admin from 'firebase-admin';
+import { createHash } from 'crypto';
+import { NarrationWord } from '../types';
+import { ReelWorkspace } from '../utils';
+import type { VoiceoverChunk } from './elevenLabs';
+
+// Everything that decides how a voiceover sounds
+export interface VoiceoverCacheInputs {
+  text: string; // Cleaned script with its pronunciations applied
+  voiceId: string;
+  modelId: string;
+  voiceSettings: Record<string, unknown>;
+}
+
+interface CachedVoiceoverMetadata {
+  words: NarrationWord[]; // As aligned, before the original spelling is restored
+  chunks: VoiceoverChunk[];
+  createdAt: string;
+}
+
+export interface CachedVoiceover {
+  audioPath: string;
+  words: NarrationWord[];
+  chunks: VoiceoverChunk[];
+}
+
+const CACHE_PREFIX = 'voiceoverCache';
+// Bump when chunking or stitching changes how the same inputs sound
+const CACHE_VERSION = 1;
+
+/**
+ * Key of a voiceover: voiceovers with the same key sound the same, whichever reel asked for them
+ * @param inputs - Text, voice, model and voice settings of the voiceover
+ */
+export function getVoiceoverCacheKey(inputs: VoiceoverCacheInputs): string {
+  return createHash('sha256')
+    .update(JSON.stringify([CACHE_VERSION, inputs.text, inputs.voiceId, inputs.modelId, inputs.voiceSettings]))
+    .digest('hex');
+}
+
+/**
+ * Synthesized voiceovers in Storage under voiceoverCache/{key}, the audio with
+ * its timed words, so regenerated and re-rendered reels do not pay for the
+ * same speech twice. Cache failures are only logged, the voiceover can
+ * always be synthesized again.
+ */
+export class VoiceoverCache {
+  private get bucket() {
+    return admin.storage().bucket();
+  }
+
+  /**
+   * Downloads a cached voiceover into the workspace
+   * @param key - Key from getVoiceoverCacheKey
+   * @param workspace - Workspace for the audio file
+   * @returns The voiceover, or null on a miss
+   */
+  async find(key: string, workspace: ReelWorkspace): Promise<CachedVoiceover | null> {
+    const audio = this.bucket.file(`${CACHE_PREFIX}/${key}.mp3`);
+    const metadata = this.bucket.file(`${CACHE_PREFIX}/${key}.json`);
+    try {
+      const [[audioExists], [metadataExists]] = await Promise.all([audio.exists(), metadata.exists()]);
+      if (!audioExists || !metadataExists) {
+        return null;
+      }
+
+      const [contents] = await metadata.download();
+      const { words, chunks } = JSON.parse(contents.toString('utf-8')) as CachedVoiceoverMetadata;
+      const audioPath = workspace.createTempFilePath('voiceover-cached', '.mp3');
+      try {
+        await audio.download({ destination: audioPath });
+      } catch (error) {
+        workspace.removeFile(audioPath);
+        throw error;
+      }
+      return { audioPath, words, chunks };
+    } catch (error) {
+      console.error(`Failed to read cached voiceover ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Stores a synthesized voiceover. The metadata is written last, so a
+   * voiceover only counts as cached once its audio is complete.
+   * @param key - Key from getVoiceoverCacheKey
+   * @param voiceover - Local audio with its timed words
+   */
+  async save(key: string, voiceover: CachedVoiceover): Promise<void> {
+    try {
+      await this.bucket.upload(voiceover.audioPath, {
+        destination: `${CACHE_PREFIX}/${key}.mp3`,
+        resumable: false
+      });
+      const metadata: CachedVoiceoverMetadata = {
+        words: voiceover.words,
+        chunks: voiceover.chunks,
+        createdAt: new Date().toISOString()
+      };
+      await this.bucket.file(`${CACHE_PREFIX}/${key}.json`).save(JSON.stringify(metadata), {
+        contentType: 'application/json',
+        resumable: false
+      });
+      console.log(`💾 Cached voiceover ${key}`);
+    } catch (error) {
+      console.error(`Failed to cache voiceover ${key}:`, error);
+    }
+  }
+}
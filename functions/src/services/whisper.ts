@@ -1,14 +1,11 @@
 import fs from 'fs';
-import { TempFileManager } from '../utils';
-import { ReelTone } from '../types';
+import { LanguageConfig, ProviderAuthError, ReelWorkspace, getLanguage, toProviderError } from '../utils';
+import { NarrationWord, ReelTone } from '../types';
 import OpenAI from 'openai';
 import config from '../config';
+import { escapeAssText } from './graphics';
 
-interface WhisperWord {
-  word: string;
-  start: number;
-  end: number;
-}
+type WhisperWord = NarrationWord;
 
 interface WhisperSegment {
   text: string;
@@ -17,29 +14,48 @@ interface WhisperSegment {
   words: WhisperWord[];
 }
 
+export interface CaptionResult {
+  captionsPath: string;
+  words: NarrationWord[]; // Transcribed words with their timestamps, for scene alignment
+}
+
 export class WhisperService {
-  private readonly tempFileManager: TempFileManager;
+  private readonly workspace: ReelWorkspace;
   private readonly openai: OpenAI;
   private readonly tone: ReelTone;
+  private readonly language: LanguageConfig;
 
-  constructor(tone: ReelTone) {
-    this.tempFileManager = TempFileManager.getInstance();
+  constructor(tone: ReelTone, workspace: ReelWorkspace, language: LanguageConfig = getLanguage()) {
+    this.workspace = workspace;
     this.openai = new OpenAI({
       apiKey: config.openai.apiKey
     });
     this.tone = tone;
-    console.log(`Initializing WhisperService with tone: ${tone}`);
+    this.language = language;
+    console.log(`Initializing WhisperService with tone: ${tone}, language: ${language.code}`);
   }
 
-  async generateCaptions(voiceoverPath: string): Promise<string> {
+  /**
+   * Transcribes the voiceover into word-level ASS captions. Only needed when
+   * the voiceover came without word timing.
+   * @param voiceoverPath - Local path of the voiceover
+   * @param signal - Optional signal to abort the request
+   * @returns The captions file and the timed words of the narration
+   */
+  async generateCaptions(voiceoverPath: string, signal?: AbortSignal): Promise<CaptionResult> {
     try {
+      // OPENAI_API_KEY is only required when OpenAI is in LLM_PROVIDERS
+      if (!config.openai.apiKey) {
+        throw new ProviderAuthError('openai', 'OPENAI_API_KEY is not set, so the voiceover cannot be transcribed');
+      }
+
       // Validate input file exists
       if (!fs.existsSync(voiceoverPath)) {
         throw new Error(`Audio file not found at path: ${voiceoverPath}`);
       }
 
       // Create output path for ASS
-      const assOutputPath = this.tempFileManager.createTempFilePath('captions', '.ass');
+      const assOutputPath = this.workspace.createTempFilePath('captions', '.ass');
 
       console.log('Transcribing audio with Whisper API...', {
         voiceoverPath
@@ -52,9 +68,10 @@ export class WhisperService {
       const transcription = await this.openai.audio.transcriptions.create({
         file: audioStream,
         model: 'whisper-1',
-        language: 'en',
-        response_format: 'verbose_json'
-      });
+        language: this.language.code,
+        response_format: 'verbose_json',
+        timestamp_granularities: ['word', 'segment']
+      }, { signal });
 
       console.log('Raw Whisper response:', JSON.stringify(transcription, null, 2));
 
@@ -69,13 +86,38 @@ export class WhisperService {
       
       console.log('Generated word-level captions:', assOutputPath);
 
-      return assOutputPath;
+      return {
+        captionsPath: assOutputPath,
+        words: this.parseWords(transcription, segments)
+      };
     } catch (error) {
       console.error('Error generating captions:', error);
-      throw error;
+      throw toProviderError(error, 'openai', 'Failed to generate captions');
     }
   }
 
+  /**
+   * Writes word-level ASS captions from words whose timing is already known,
+   * e.g. from the voiceover's alignment, without a transcription
+   * @param words - Narration words with their timestamps
+   * @returns Local path of the captions file
+   */
+  async createCaptions(words: NarrationWord[]): Promise<string> {
+    if (words.length === 0) {
+      throw new Error('No words to caption');
+    }
+    const assOutputPath = this.workspace.createTempFilePath('captions', '.ass');
+    const segment: WhisperSegment = {
+      text: words.map(word => word.word).join(' '),
+      start: words[0].start,
+      end: words[words.length - 1].end,
+      words
+    };
+    await fs.promises.writeFile(assOutputPath, this.generateWordLevelASS([segment]), 'utf-8');
+    console.log('Generated word-level captions from the voiceover alignment:', assOutputPath);
+    return assOutputPath;
+  }
+
   private parseWhisperResponse(response: any): WhisperSegment[] {
     try {
       console.log('Parsing response:', response);
@@ -129,6 +171,18 @@ export class WhisperService {
     }
   }
 
+  // Whisper's word timestamps lack punctuation, so the captions keep using the
+  // segment text; the real timestamps are only needed to time scenes
+  private parseWords(response: any, segments: WhisperSegment[]): NarrationWord[] {
+    if (Array.isArray(response?.words) && response.words.length > 0) {
+      return response.words
+        .map((word: any) => ({ word: String(word.word ?? '').trim(), start: Number(word.start), end: Number(word.end) }))
+        .filter((word: NarrationWord) => word.word && !isNaN(word.start) && !isNaN(word.end));
+    }
+    console.log('No word timestamps in response, using estimated ones');
+    return segments.flatMap(segment => segment.words);
+  }
+
   private createWordTimestamps(text: string, start: number, end: number): WhisperWord[] {
     // Split text into words
     const words = text.split(/\s+/);
@@ -172,7 +226,7 @@ ScaledBorderAndShadow: yes
 
 [V4+ Styles]
 Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
-Style: Default,${selectedFont},${selectedFontSize},${primaryColor},&H000000FF,${outlineColor},&H80000000,${isBold},${italic},0,0,100,100,0,0,1,${selectedOutline},0,8,10,10,${verticalPosition},1
+Style: Default,${selectedFont},${selectedFontSize},${primaryColor},&H000000FF,${outlineColor},&H80000000,${isBold},${italic},0,0,100,100,0,0,1,${selectedOutline},0,8,10,10,${verticalPosition},${this.language.assEncoding}
 
 [Events]
 Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text\n`;
@@ -196,8 +250,8 @@ Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text\
             const word = words[i];
             currentGroup.push(word);
             
-            const isEndOfSentence = !!word.word.match(/[.!?]$/);
-            const isBreathPause = !!word.word.match(/[,;:]$/);
+            const isEndOfSentence = this.language.sentenceEnd.test(word.word);
+            const isBreathPause = this.language.clausePause.test(word.word);
             const isLastWord = i === words.length - 1;
 
             // Get grouping logic based on tone
@@ -208,7 +262,11 @@ Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text\
                 const groupEnd = currentGroup[currentGroup.length - 1].end;
                 
                 // Generate text with appropriate effects for the tone
-                const text = this.generateTextWithEffects(currentGroup, highlightColor);
+                let text = this.generateTextWithEffects(currentGroup, highlightColor);
+                if (this.language.rtl) {
+                    // Embed the line right-to-left, so trailing punctuation stays at the line's left end
+                    text = `\u202B${text}\u202C`;
+                }
                 
                 events += `Dialogue: 0,${formatTime(groupStart)},${formatTime(groupEnd)},Default,,0,0,0,,${text}\\N\n`;
                 
@@ -221,6 +279,10 @@ Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text\
   }
 
   private getFontsForTone(): string[] {
+    // Tone fonts lack Arabic and Devanagari glyphs, so those scripts get their own
+    if (this.language.captionFonts) {
+      return this.language.captionFonts;
+    }
     switch (this.tone) {
       case 'dramatic':
         return [
@@ -366,7 +428,7 @@ Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text\
     
     const words = currentGroup.map(w => {
       const duration = Math.round((w.end - w.start) * 100);
-      return `{\\k${duration}\\c${highlightColor}}${w.word}`;
+      return `{\\k${duration}\\c${highlightColor}}${escapeAssText(w.word)}`;
     }).join(' ');
 
     return `{${effect}}${words}`;
@@ -1,8 +1,9 @@
 export type ReelStatus = 
   | 'processing'
   | 'analyzing'
-  | 'generatingVoiceover'
   | 'gatheringVisuals'
+  | 'awaitingApproval' // Storyboard ready, waiting for approveAiReelV2
+  | 'generatingVoiceover'
   | 'assemblingVideo'
   | 'finalizing'
   | 'completed'
@@ -11,6 +12,8 @@ export type ReelStatus =
 
 export type ReelTone = 'professional' | 'casual' | 'dramatic';
 
+export type ReelLanguage = 'en' | 'es' | 'fr' | 'ar' | 'hi';
+
 export type VisualType = 'b-roll' | 'static' | 'talking' | 'overlay';
 
 export type TransitionType = 
@@ -63,6 +66,23 @@ export interface EffectConfig {
   };
 }
 
+export type SensitivityLevel =
+  | 'none'      // Regular news
+  | 'sensitive' // Disasters, conflict, illness: restrained style, somber music
+  | 'tragic';   // Deaths and victims: restrained style, no music
+
+export interface SensitivityAssessment {
+  level: SensitivityLevel;
+  reasons: string[]; // Why the story was rated this way
+}
+
+// Restrained style profile applied to a sensitive story, recorded on the reel
+export interface SensitivityOverride extends SensitivityAssessment {
+  transitionsReplaced: number; // Scene transitions replaced by fades
+  effectsReplaced: number; // Scene effects removed or toned down
+  music: 'somber' | 'none';
+}
+
 export interface ContextAnalysis {
   mainTopic: string;
   category: string;
@@ -75,6 +95,30 @@ export interface ContextAnalysis {
   visualConcepts: string[];
   targetAudience: string;
   mood: string;
+  sensitivity?: SensitivityAssessment; // Rated by the model, raised by classifySensitivity
+}
+
+export type TextCardStyle =
+  | 'headline' // Short headline with an accent rule
+  | 'stat'     // Large figure with a label
+  | 'quote';   // Quote with its attribution
+
+// Text of an overlay scene, rendered as a card instead of stock footage
+export interface TextCard {
+  style: TextCardStyle;
+  text: string;     // Headline, figure (e.g. "42%") or quote
+  subtext?: string; // Label of the figure, attribution of the quote or a headline kicker
+}
+
+export type LowerThirdKind =
+  | 'name'   // Person or organization with their role, e.g. "Jerome Powell" / "Fed Chair"
+  | 'quote'; // Attributed quote with its source
+
+// News-style annotation in the lower third of a scene
+export interface LowerThird {
+  kind: LowerThirdKind;
+  text: string;     // Name, or the quote
+  subtext?: string; // Role of the person, or source of the quote
 }
 
 export interface VideoScene {
@@ -89,6 +133,16 @@ export interface VideoScene {
   transition: TransitionConfig;
   effect: EffectConfig;
   visualRequirements?: string[];
+  narration?: string; // Script text spoken during the scene, used to time the scene to the voiceover
+  textCard?: TextCard; // Set for overlay scenes
+  lowerThird?: LowerThird; // Shown over the scene's media; not used on overlay scenes
+}
+
+// A word of the narration with its timing in the voiceover
+export interface NarrationWord {
+  word: string;
+  start: number; // Seconds
+  end: number;
 }
 
 export interface VideoAnalysis {
@@ -101,12 +155,58 @@ export interface VideoAnalysis {
   visualMotifs: string[];
   defaultTransition: TransitionType;
   defaultEffect: VideoEffect;
+  planner?: { provider: string; model: string; attempts: number }; // Model that produced the plan
+}
+
+// One stored run of the script analysis, in scriptAnalysis/{scriptId}/versions/{version}
+export interface AnalysisVersion {
+  version: number; // 1-based, per script
+  scriptId: string;
+  scriptHash: string; // SHA-256 of the script content the plan was made from
+  promptVersion: number; // PROMPT_VERSION of the prompts that produced the plan
+  provider: string;
+  model: string;
+  tone: ReelTone;
+  language: ReelLanguage;
+  targetDuration: number;
+  analysis: VideoAnalysis;
+  cachedFrom?: { scriptId: string; version: number }; // Set when the plan was reused from the analysis cache
+  createdAt: Date;
+}
+
+export type PronunciationScope =
+  | 'user'    // users/{uid}/pronunciations, used for that user's reels
+  | 'global'; // pronunciations, used for every reel; a user's own entry for the same term wins
+
+// How the voice should say a term it gets wrong; exactly one of alias and phoneme is set
+export interface PronunciationEntry {
+  term: string;     // As written in scripts and shown in captions, matched case-sensitively as a whole word
+  alias?: string;   // Respelling spoken instead, e.g. "Zeh-LEN-skee" for "Zelenskyy"
+  phoneme?: string; // IPA; only used for English voiceovers, whose model reads phoneme tags
+  updatedAt?: Date;
 }
 
 export interface SceneMedia {
   primary: PixabayMedia[];
   background: PixabayMedia[];
   overlays: PixabayMedia[];
+  search?: MediaSearchInfo; // How the media was found, for the reel's event log
+}
+
+export type MediaProvider = 'pexels' | 'pixabay';
+
+export interface MediaSearchInfo {
+  provider: MediaProvider;
+  keywordsTried: string[][]; // Keyword sets in the order they were searched
+  matchedKeywords?: string[]; // Keyword set that returned the media
+}
+
+export type VisualStyle = 'live-action' | 'illustration';
+
+export interface RgbColor {
+  r: number;
+  g: number;
+  b: number;
 }
 
 export interface PixabayMedia {
@@ -114,15 +214,81 @@ export interface PixabayMedia {
   url: string;
   width: number;
   height: number;
+  id?: number; // Provider's media id
+  tags?: string[]; // Descriptive words from the provider (tags, alt text, page slug)
+  style?: VisualStyle; // When the provider says whether it is footage or animation
+  averageColor?: RgbColor; // Sampled after download, for color coherence
+  coherenceScore?: number; // Coherence with the reel's theme and earlier scenes (0 - 1)
   localPath?: string; // Local temporary file path after download
+  storagePath?: string; // Checkpointed copy in Firebase Storage
   isHorizontal?: boolean; // Whether the media is in horizontal format
 }
 
+export type PipelineStage =
+  | 'analysis'   // Script analysis into scenes
+  | 'media'      // Scene media and background music
+  | 'storyboard' // Plan-only reels: storyboard for review, completed by approval
+  | 'narration'  // Voiceover, captions and the scene timeline
+  | 'render'     // Per-scene renders, fanned out one task per scene
+  | 'mux'        // Transitions, audio mix and burned-in captions
+  | 'upload';    // Thumbnail and public upload
+
+export interface StageCheckpoint {
+  completedAt: Date;
+  artifacts: Record<string, string>; // Artifact name -> Storage path
+}
+
+export type ReelCheckpoints = Partial<Record<PipelineStage, StageCheckpoint>>;
+
+export interface StoryboardScene {
+  index: number;
+  description: string;
+  duration: number; // Planned duration; the voiceover decides the final one
+  keywords: string[];
+  mood: string;
+  visualType: VisualType;
+  transition: TransitionType;
+  effect: VideoEffect;
+  provider?: MediaProvider;
+  media: { type: 'video' | 'image'; url: string }[];
+  thumbnailURL: string; // Low-res vertical preview of the chosen clip
+}
+
+export interface Storyboard {
+  scenes: StoryboardScene[];
+  backgroundMusic: boolean;
+  createdAt: Date;
+}
+
+export interface StageTask {
+  reelId: string;
+  stage: PipelineStage;
+  sceneIndex?: number; // Set for per-scene render tasks
+}
+
+export interface SceneCountRange {
+  min: number;
+  max: number;
+}
+
+// Claim of one worker on a stage task, so duplicate deliveries do not run it twice
+export interface ReelLease {
+  owner: string; // Unique id of the task delivery holding the lease
+  taskId: string; // Queued task the delivery belongs to
+  retryCount: number; // Task queue retry of that delivery, 0 for the first
+  expiresAt: Date; // Kept in the future by the holder's heartbeat
+  attempt: number; // How often the lease was acquired, including takeovers
+  acquiredAt: Date;
+}
+
 export interface AiReel {
   id?: string;
   scriptId: string;
   status: ReelStatus;
   progress: number;
+  progressDetail?: string | null; // What the current stage is doing, e.g. 'Rendered 3 of 8 scenes'
+  etaSeconds?: number | null; // Estimated time until the reel is ready
+  processingStartedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
   videoURL?: string;
@@ -130,5 +296,47 @@ export interface AiReel {
   voiceId: string;
   tone: ReelTone;
   userId: string;
-  error?: string;
-} 
\ No newline at end of file
+  language?: ReelLanguage; // Language of the narration and captions; the script's language if unset
+  targetDuration?: number; // Requested length in seconds (15 - 120), 30 if unset
+  sceneCountRange?: SceneCountRange; // Overrides the scene count derived from targetDuration
+  analysisVersion?: number; // Version in scriptAnalysis/{scriptId}/versions the reel was rendered from
+  regeneratePlan?: boolean; // Ask the model for a new plan instead of reusing a cached one; cleared by the analysis stage
+  sensitivity?: SensitivityOverride; // Set when the story called for the restrained style profile
+  error?: string; // User-safe message of the failure
+  errorCode?: string | null; // ReelErrorCode of the failure
+  retryable?: boolean | null; // Whether retryAiReelV2 can succeed
+  planOnly?: boolean; // Stop after media search with a storyboard for approval
+  storyboard?: Storyboard;
+  approvedAt?: Date;
+  checkpoints?: ReelCheckpoints;
+  sceneRenders?: Record<string, string>; // Scene index -> Storage path of its render
+  sceneProgress?: Record<string, number>; // Scene index -> render progress (0 - 1)
+  leases?: Record<string, ReelLease>; // Lease key (stage, or render-<scene>) -> current lease
+  watchdogRetries?: number; // How often the watchdog re-enqueued this attempt after a stall
+} 
+
+export type ReelEventType =
+  | 'stage'      // One pipeline stage task, from start to checkpoint
+  | 'provider'   // One call to an external provider (OpenAI, ElevenLabs, Pexels, ...)
+  | 'cache';     // Lookup of a cached provider result, e.g. the script analysis
+
+export type ReelEventOutcome = 'succeeded' | 'failed' | 'skipped' | 'cancelled';
+
+export interface ReelEvent {
+  type: ReelEventType;
+  name: string; // Stage name or provider call, e.g. 'pexels.search'
+  stage: PipelineStage;
+  sceneIndex?: number;
+  provider?: string;
+  outcome: ReelEventOutcome;
+  attempt?: number; // 1-based attempt number for retried calls and task deliveries
+  startedAt: Date;
+  endedAt: Date;
+  durationMs: number;
+  details?: Record<string, unknown>;
+  error?: {
+    name: string;
+    message: string;
+    code?: string; // ReelErrorCode for ReelErrors
+  };
+}
@@ -0,0 +1,63 @@
+import * as admin from 'firebase-admin';
+import { ReelCancelledError } from './errors';
+
+/**
+ * Watches a reel document and aborts its signal as soon as the reel is cancelled,
+ * so the pipeline can stop between stages and services can kill in-flight work
+ * (ffmpeg processes, downloads, API requests).
+ */
+export class CancellationWatcher {
+  private readonly controller = new AbortController();
+  private readonly unsubscribe: () => void;
+
+  constructor(private readonly reelId: string) {
+    this.unsubscribe = admin.firestore().collection('aiReels').doc(reelId).onSnapshot(
+      (snapshot) => {
+        if (snapshot.data()?.status === 'cancelled' && !this.controller.signal.aborted) {
+          console.log(`🛑 Reel ${reelId} was cancelled, aborting in-flight work`);
+          this.controller.abort();
+        }
+      },
+      (error) => {
+        console.error(`Failed to watch reel ${reelId} for cancellation:`, error);
+      }
+    );
+  }
+
+  /**
+   * Signal to hand to services; aborted once the reel is cancelled
+   */
+  public get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  public get isCancelled(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  /**
+   * Throws a ReelCancelledError if the reel has been cancelled
+   */
+  public throwIfCancelled(): void {
+    if (this.isCancelled) {
+      throw new ReelCancelledError(this.reelId);
+    }
+  }
+
+  /**
+   * Stops listening to the reel document
+   */
+  public dispose(): void {
+    this.unsubscribe();
+  }
+}
+
+/**
+ * Throws a ReelCancelledError if the given signal has been aborted
+ * @param signal - Optional cancellation signal
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ReelCancelledError();
+  }
+}
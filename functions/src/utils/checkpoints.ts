@@ -0,0 +1,174 @@
+import * as admin from 'firebase-admin';
+import { FieldValue } from 'firebase-admin/firestore';
+import * as path from 'path';
+import { PipelineStage, ReelCheckpoints } from '../types';
+import { ReelWorkspace } from './reelWorkspace';
+
+/**
+ * Persists the artifacts of each pipeline stage to Firebase Storage and records
+ * a checkpoint on the reel document, so a retried generation can resume at the
+ * first incomplete stage instead of redoing (and re-paying for) earlier work.
+ */
+export class CheckpointStore {
+  private readonly prefix: string;
+
+  constructor(
+    private readonly reelId: string,
+    userId: string,
+    private checkpoints: ReelCheckpoints,
+    private readonly workspace: ReelWorkspace
+  ) {
+    this.prefix = `users/${userId}/reels/${reelId}/work`;
+  }
+
+  private get bucket() {
+    return admin.storage().bucket();
+  }
+
+  /**
+   * Whether the given stage finished during a previous attempt
+   * @param stage - Pipeline stage to check
+   */
+  public isComplete(stage: PipelineStage): boolean {
+    return !!this.checkpoints[stage];
+  }
+
+  /**
+   * Gets the Storage path of an artifact recorded by a completed stage
+   * @param stage - Stage that produced the artifact
+   * @param name - Artifact name
+   * @returns The Storage path, or null if the artifact was not recorded
+   */
+  public getArtifact(stage: PipelineStage, name: string): string | null {
+    return this.checkpoints[stage]?.artifacts[name] ?? null;
+  }
+
+  /**
+   * Marks a stage as complete and records its artifacts on the reel document
+   * @param stage - Stage that completed
+   * @param artifacts - Artifact name -> Storage path
+   */
+  public async complete(stage: PipelineStage, artifacts: Record<string, string>): Promise<void> {
+    const completedAt = new Date();
+    await admin.firestore().collection('aiReels').doc(this.reelId).update({
+      [`checkpoints.${stage}`]: {
+        artifacts,
+        completedAt: FieldValue.serverTimestamp()
+      },
+      updatedAt: FieldValue.serverTimestamp()
+    });
+    this.checkpoints[stage] = { artifacts, completedAt };
+    console.log(`💾 Checkpointed stage ${stage}:`, artifacts);
+  }
+
+  /**
+   * Uploads JSON data to the reel's work area
+   * @param name - File name relative to the work area (e.g., 'analysis.json')
+   * @param data - Data to serialize
+   * @returns The Storage path of the uploaded object
+   */
+  public async saveJson(name: string, data: unknown): Promise<string> {
+    const destination = `${this.prefix}/${name}`;
+    await this.bucket.file(destination).save(JSON.stringify(data), {
+      contentType: 'application/json',
+      resumable: false
+    });
+    return destination;
+  }
+
+  /**
+   * Downloads and parses JSON data saved by saveJson
+   * @param storagePath - Storage path of the object
+   */
+  public async loadJson<T>(storagePath: string): Promise<T> {
+    const [contents] = await this.bucket.file(storagePath).download();
+    return JSON.parse(contents.toString('utf-8')) as T;
+  }
+
+  /**
+   * Uploads a local file to the reel's work area
+   * @param localPath - Local file to upload
+   * @param name - File name relative to the work area
+   * @returns The Storage path of the uploaded object
+   */
+  public async saveFile(localPath: string, name: string): Promise<string> {
+    const destination = `${this.prefix}/${name}`;
+    await this.bucket.upload(localPath, { destination, resumable: false });
+    return destination;
+  }
+
+  /**
+   * Downloads a checkpointed file into the reel's workspace
+   * @param storagePath - Storage path of the object
+   * @returns The local path of the downloaded file
+   */
+  public async restoreFile(storagePath: string): Promise<string> {
+    const extension = path.extname(storagePath);
+    const prefix = path.basename(storagePath, extension);
+    const localPath = this.workspace.createTempFilePath(`restored-${prefix}`, extension);
+    await this.bucket.file(storagePath).download({ destination: localPath });
+    console.log(`♻️ Restored checkpointed file ${storagePath} to ${localPath}`);
+    return localPath;
+  }
+
+  /**
+   * Records a finished scene render. Scene renders run as parallel tasks, so the
+   * render stage is checkpointed by whichever task records the last missing scene.
+   * @param index - Scene index
+   * @param storagePath - Storage path of the uploaded render
+   * @param sceneCount - Total number of scenes in the timeline
+   * @returns Whether this call completed the render stage
+   */
+  public async recordSceneRender(index: number, storagePath: string, sceneCount: number): Promise<boolean> {
+    const reelRef = admin.firestore().collection('aiReels').doc(this.reelId);
+    const completedRenders = await admin.firestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(reelRef);
+      const data = snapshot.data() ?? {};
+      const sceneRenders: Record<string, string> = { ...data.sceneRenders, [index]: storagePath };
+
+      if (data.checkpoints?.render || Object.keys(sceneRenders).length < sceneCount) {
+        transaction.update(reelRef, {
+          [`sceneRenders.${index}`]: storagePath,
+          updatedAt: FieldValue.serverTimestamp()
+        });
+        return null;
+      }
+
+      transaction.update(reelRef, {
+        [`sceneRenders.${index}`]: storagePath,
+        'checkpoints.render': {
+          artifacts: sceneRenders,
+          completedAt: FieldValue.serverTimestamp()
+        },
+        updatedAt: FieldValue.serverTimestamp()
+      });
+      return sceneRenders;
+    });
+
+    if (!completedRenders) {
+      console.log(`💾 Recorded render for scene ${index}`);
+      return false;
+    }
+    this.checkpoints.render = { artifacts: completedRenders, completedAt: new Date() };
+    console.log(`💾 Recorded render for scene ${index}, all scenes rendered`);
+    return true;
+  }
+
+  /**
+   * Deletes all work artifacts and checkpoint records once the reel is done
+   */
+  public async clear(): Promise<void> {
+    try {
+      await this.bucket.deleteFiles({ prefix: `${this.prefix}/` });
+      await admin.firestore().collection('aiReels').doc(this.reelId).update({
+        checkpoints: FieldValue.delete(),
+        sceneRenders: FieldValue.delete(),
+        sceneProgress: FieldValue.delete()
+      });
+      this.checkpoints = {};
+    } catch (error) {
+      // Leftover work files only cost storage, so never fail the reel over them
+      console.error('Failed to clear checkpoints:', error);
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import { MediaSearchInfo } from '../types';
+
+export type ReelErrorCode =
+  | 'PROVIDER_AUTH'     // An API key was rejected
+  | 'PROVIDER_QUOTA'    // A provider rate limited us or the quota ran out
+  | 'NO_MEDIA_FOUND'    // No usable stock media for a scene
+  | 'LLM_INVALID_PLAN'  // The model returned a plan we cannot use
+  | 'FFMPEG_FAILED'     // Rendering or muxing failed
+  | 'TIMEOUT'           // A request or the whole generation took too long
+  | 'CANCELLED'         // The user cancelled the reel
+  | 'UNKNOWN';
+
+interface ReelErrorOptions {
+  retryable: boolean;
+  userMessage: string;
+}
+
+/**
+ * Base class of all errors that can fail a reel. The message is for logs and
+ * the event log; userMessage is safe to show in the app, and retryable says
+ * whether retrying the same reel can succeed.
+ */
+export class ReelError extends Error {
+  readonly retryable: boolean;
+  readonly userMessage: string;
+
+  constructor(readonly code: ReelErrorCode, message: string, options: ReelErrorOptions) {
+    super(message);
+    this.name = 'ReelError';
+    this.retryable = options.retryable;
+    this.userMessage = options.userMessage;
+  }
+}
+
+export class ProviderAuthError extends ReelError {
+  constructor(readonly provider: string, message: string) {
+    super('PROVIDER_AUTH', message, {
+      retryable: false,
+      userMessage: 'A service needed to create your reel is unavailable right now. Our team has been notified.'
+    });
+    this.name = 'ProviderAuthError';
+  }
+}
+
+export class ProviderQuotaError extends ReelError {
+  constructor(readonly provider: string, message: string) {
+    super('PROVIDER_QUOTA', message, {
+      retryable: true,
+      userMessage: 'We are creating a lot of reels right now. Please try again in a few minutes.'
+    });
+    this.name = 'ProviderQuotaError';
+  }
+}
+
+export class NoMediaFoundError extends ReelError {
+  constructor(message: string, readonly search?: MediaSearchInfo) {
+    super('NO_MEDIA_FOUND', message, {
+      retryable: false,
+      userMessage: 'We could not find matching footage for one of the scenes. Try rewording your script.'
+    });
+    this.name = 'NoMediaFoundError';
+  }
+}
+
+export class InvalidPlanError extends ReelError {
+  constructor(message: string) {
+    super('LLM_INVALID_PLAN', message, {
+      retryable: true,
+      userMessage: 'We could not plan the scenes for your script. Please try again.'
+    });
+    this.name = 'InvalidPlanError';
+  }
+}
+
+export class FfmpegError extends ReelError {
+  constructor(message: string) {
+    super('FFMPEG_FAILED', message, {
+      retryable: true,
+      userMessage: 'Something went wrong while rendering your video. Please try again.'
+    });
+    this.name = 'FfmpegError';
+  }
+}
+
+export class ReelTimeoutError extends ReelError {
+  constructor(message: string) {
+    super('TIMEOUT', message, {
+      retryable: true,
+      userMessage: 'Creating your reel took too long. Please try again.'
+    });
+    this.name = 'ReelTimeoutError';
+  }
+}
+
+export class ReelCancelledError extends ReelError {
+  constructor(reelId?: string) {
+    super('CANCELLED', reelId ? `Reel ${reelId} was cancelled` : 'Reel was cancelled', {
+      retryable: false,
+      userMessage: 'This reel was cancelled.'
+    });
+    this.name = 'ReelCancelledError';
+  }
+}
+
+// Unclassified failures are worth a retry, since most are transient
+function unknownError(message: string): ReelError {
+  return new ReelError('UNKNOWN', message, {
+    retryable: true,
+    userMessage: 'Something went wrong while creating your reel. Please try again.'
+  });
+}
+
+// Status code of an axios or OpenAI SDK error, if any
+function getHttpStatus(error: any): number | undefined {
+  return error?.response?.status ?? error?.status;
+}
+
+function isTimeout(error: any): boolean {
+  return ['ECONNABORTED', 'ETIMEDOUT'].includes(error?.code) || error?.name === 'APIConnectionTimeoutError';
+}
+
+/**
+ * Classifies an error thrown by a provider call. ReelErrors pass through
+ * unchanged, HTTP auth, rate limit and timeout failures get their own codes.
+ * @param error - Error thrown by the call
+ * @param provider - Provider that was called, e.g. 'openai'
+ * @param context - Prefix for the message, e.g. 'Failed to analyze script'
+ */
+export function toProviderError(error: unknown, provider: string, context: string): ReelError {
+  if (error instanceof ReelError) {
+    return error;
+  }
+
+  const message = `${context}: ${error instanceof Error ? error.message : String(error)}`;
+  const status = getHttpStatus(error);
+  if (status === 401 || status === 403) {
+    return new ProviderAuthError(provider, message);
+  }
+  if (status === 429) {
+    return new ProviderQuotaError(provider, message);
+  }
+  if (isTimeout(error)) {
+    return new ReelTimeoutError(message);
+  }
+  return unknownError(message);
+}
+
+/**
+ * Rethrows failures that no other search would get past, a rejected key or a
+ * rate limit, as typed provider errors. Search loops call this before
+ * swallowing an error and moving on to the next keywords.
+ * @param error - Error thrown by a search request
+ * @param provider - Provider that was called, e.g. 'pexels'
+ */
+export function rethrowProviderAccessError(error: unknown, provider: string): void {
+  if (error instanceof ProviderAuthError || error instanceof ProviderQuotaError) {
+    throw error;
+  }
+  const status = getHttpStatus(error);
+  if (status === 401 || status === 403 || status === 429) {
+    throw toProviderError(error, provider, `${provider} search failed`);
+  }
+}
+
+/**
+ * Converts anything thrown by the pipeline into a ReelError
+ * @param error - Error to convert
+ */
+export function toReelError(error: unknown): ReelError {
+  if (error instanceof ReelError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (isTimeout(error)) {
+    return new ReelTimeoutError(message);
+  }
+  return unknownError(message);
+}
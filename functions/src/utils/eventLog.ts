@@ -0,0 +1,138 @@
+import * as admin from 'firebase-admin';
+import { FieldValue } from 'firebase-admin/firestore';
+import { PipelineStage, ReelEvent, ReelEventOutcome } from '../types';
+import { ReelCancelledError, ReelError } from './errors';
+
+export interface ReelEventContext {
+  stage: PipelineStage;
+  sceneIndex?: number;
+}
+
+export interface ProviderCallOptions<T> {
+  provider: string;
+  attempt?: number;
+  details?: Record<string, unknown>;
+  // Extracts what is worth keeping from a successful result (track id, keywords, ...)
+  describe?: (result: T) => Record<string, unknown>;
+  // Extracts details from a failure, e.g. the keywords a failed search tried
+  describeError?: (error: unknown) => Record<string, unknown> | undefined;
+}
+
+/**
+ * Writes a structured record of each stage and provider call to the reel's
+ * `events` subcollection, so support can see which providers were used, what
+ * was searched for and why a generation failed without reading the logs.
+ */
+export class ReelEventLog {
+  constructor(
+    private readonly reelId: string,
+    private readonly context: ReelEventContext
+  ) {}
+
+  /**
+   * Stores a single event. Failures are logged and swallowed, since the event
+   * log must never fail the reel it describes.
+   * @param event - Event fields; the stage and scene come from the log's context
+   */
+  public async record(event: Omit<ReelEvent, 'stage' | 'durationMs'>): Promise<void> {
+    const entry: ReelEvent = {
+      ...event,
+      stage: this.context.stage,
+      sceneIndex: this.context.sceneIndex,
+      durationMs: event.endedAt.getTime() - event.startedAt.getTime()
+    };
+
+    try {
+      await admin.firestore()
+        .collection('aiReels')
+        .doc(this.reelId)
+        .collection('events')
+        .add({
+          ...stripUndefined(entry),
+          createdAt: FieldValue.serverTimestamp()
+        });
+    } catch (error) {
+      console.error('Failed to record reel event:', { event: entry, error });
+    }
+  }
+
+  /**
+   * Runs a provider call and records its timing and outcome
+   * @param name - Call name, e.g. 'elevenlabs.voiceover'
+   * @param options - Provider and details to record
+   * @param call - The call itself; its result is returned and errors are rethrown
+   */
+  public async trackProviderCall<T>(
+    name: string,
+    options: ProviderCallOptions<T>,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const startedAt = new Date();
+    try {
+      const result = await call();
+      await this.record({
+        type: 'provider',
+        name,
+        provider: options.provider,
+        attempt: options.attempt,
+        outcome: 'succeeded',
+        startedAt,
+        endedAt: new Date(),
+        details: { ...options.details, ...options.describe?.(result) }
+      });
+      return result;
+    } catch (error) {
+      await this.record({
+        type: 'provider',
+        name,
+        provider: options.provider,
+        attempt: options.attempt,
+        outcome: getFailureOutcome(error),
+        startedAt,
+        endedAt: new Date(),
+        details: { ...options.details, ...options.describeError?.(error) },
+        error: serializeError(error)
+      });
+      throw error;
+    }
+  }
+}
+
+/**
+ * Maps an error to the outcome recorded for it
+ * @param error - Error thrown by a stage or provider call
+ */
+export function getFailureOutcome(error: unknown): ReelEventOutcome {
+  return error instanceof ReelCancelledError ? 'cancelled' : 'failed';
+}
+
+/**
+ * Converts an error into the plain object stored on events
+ * @param error - Error thrown by a stage or provider call
+ */
+export function serializeError(error: unknown): ReelEvent['error'] {
+  if (error instanceof ReelError) {
+    return { name: error.name, message: error.message, code: error.code };
+  }
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message };
+  }
+  return { name: 'Error', message: String(error) };
+}
+
+// Firestore rejects undefined values, and optional event fields are often unset
+function stripUndefined<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => stripUndefined(item)) as T;
+  }
+  if (value && typeof value === 'object' && value.constructor === Object) {
+    const result: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      if (field !== undefined) {
+        result[key] = stripUndefined(field);
+      }
+    }
+    return result as T;
+  }
+  return value;
+}
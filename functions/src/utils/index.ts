@@ -1,2 +1,9 @@
-export * from './tempFileManager';
-export * from './status'; 
\ No newline at end of file
+export * from './reelWorkspace';
+export * from './status';
+export * from './checkpoints';
+export * from './errors';
+export * from './cancellation';
+export * from './progress';
+export * from './eventLog';
+export * from './lease';
+export * from './languages';
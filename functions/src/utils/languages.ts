@@ -0,0 +1,74 @@
+import { ReelLanguage } from '../types';
+
+export interface LanguageConfig {
+  code: ReelLanguage; // ISO 639-1, as used by Whisper and Currents
+  name: string; // English name, used in prompts
+  rtl: boolean;
+  captionFonts?: string[]; // Fonts with the script's glyphs; tone fonts are used when unset
+  assEncoding: number; // ASS style encoding (charset) for the script
+  sentenceEnd: RegExp; // Punctuation that ends a sentence, for caption grouping
+  clausePause: RegExp; // Punctuation that marks a breath pause
+}
+
+export const DEFAULT_LANGUAGE: ReelLanguage = 'en';
+
+// Voiceovers use ElevenLabs' multilingual model, which picks the language up
+// from the script, so languages only differ in prompts, transcription and captions
+export const LANGUAGES: Record<ReelLanguage, LanguageConfig> = {
+  en: {
+    code: 'en',
+    name: 'English',
+    rtl: false,
+    assEncoding: 1,
+    sentenceEnd: /[.!?]$/,
+    clausePause: /[,;:]$/
+  },
+  es: {
+    code: 'es',
+    name: 'Spanish',
+    rtl: false,
+    assEncoding: 1,
+    sentenceEnd: /[.!?]$/,
+    clausePause: /[,;:]$/
+  },
+  fr: {
+    code: 'fr',
+    name: 'French',
+    rtl: false,
+    assEncoding: 1,
+    sentenceEnd: /[.!?]$/,
+    clausePause: /[,;:]$/
+  },
+  ar: {
+    code: 'ar',
+    name: 'Arabic',
+    rtl: true,
+    captionFonts: ['Noto Sans Arabic', 'Noto Naskh Arabic'],
+    assEncoding: 178,
+    sentenceEnd: /[.!?؟]$/,
+    clausePause: /[,;:،؛]$/
+  },
+  hi: {
+    code: 'hi',
+    name: 'Hindi',
+    rtl: false,
+    captionFonts: ['Noto Sans Devanagari'],
+    assEncoding: 1,
+    sentenceEnd: /[.!?।॥]$/,
+    clausePause: /[,;:]$/
+  }
+};
+
+/**
+ * Looks up a language, falling back to English for unset or unsupported codes
+ * @param code - Language code from the reel or script document
+ */
+export function getLanguage(code?: string | null): LanguageConfig {
+  if (code && Object.prototype.hasOwnProperty.call(LANGUAGES, code)) {
+    return LANGUAGES[code as ReelLanguage];
+  }
+  if (code) {
+    console.warn(`Unsupported language ${code}, using ${DEFAULT_LANGUAGE}`);
+  }
+  return LANGUAGES[DEFAULT_LANGUAGE];
+}
@@ -0,0 +1,170 @@
+import * as admin from 'firebase-admin';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { randomUUID } from 'crypto';
+import { ReelLease, StageTask } from '../types';
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+// Renew well before expiry so a slow Firestore write never lets the lease lapse
+const HEARTBEAT_SHARE = 0.3;
+
+export interface LeaseOptions {
+  ttlMs?: number;
+}
+
+// One delivery of a stage task. Duplicate deliveries share the task id and
+// retry count, a task queue retry of the same task counts up.
+export interface TaskDelivery {
+  taskId: string;
+  retryCount: number;
+}
+
+/**
+ * Key of the lease guarding a stage task. Scene renders run in parallel, so
+ * each scene has its own lease.
+ * @param task - Stage task to guard
+ */
+export function getLeaseKey(task: StageTask): string {
+  return task.sceneIndex === undefined ? task.stage : `${task.stage}-${task.sceneIndex}`;
+}
+
+/**
+ * Whether a delivery may take over a lease that is still recorded: once it
+ * expired, or when the delivery is a later task queue retry of the holder's task
+ * @param current - Lease on the reel document
+ * @param delivery - Delivery asking for the lease
+ * @param nowMs - Current time in milliseconds
+ */
+export function canTakeOver(
+  current: Omit<ReelLease, 'expiresAt' | 'acquiredAt'> & { expiresAt?: Timestamp },
+  delivery: TaskDelivery,
+  nowMs: number
+): boolean {
+  if (!current.expiresAt || current.expiresAt.toMillis() <= nowMs) {
+    return true;
+  }
+  return current.taskId === delivery.taskId && delivery.retryCount > (current.retryCount ?? 0);
+}
+
+/**
+ * Transactional lease on a reel document. Firestore triggers and Cloud Tasks
+ * deliver at least once, so a stage task can run twice at the same time; the
+ * lease makes sure only one worker does the work (and pays for TTS). Every
+ * delivery is its own owner, so a duplicate never gets the lease back. The
+ * holder keeps the lease alive with a heartbeat; a lease whose holder died is
+ * taken over once it expires, or right away by a task queue retry of the
+ * same task, which only comes after the previous attempt stopped.
+ */
+export class ProcessingLease {
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  private constructor(
+    private readonly reelId: string,
+    private readonly key: string,
+    private readonly owner: string,
+    private readonly ttlMs: number,
+    readonly attempt: number,
+    readonly tookOver: boolean
+  ) {}
+
+  /**
+   * Acquires the lease unless another delivery holds an unexpired one
+   * @param reelId - ID of the aiReels document
+   * @param key - Lease key, see getLeaseKey
+   * @param delivery - Task id and retry count of this delivery
+   * @param options - Optional lease duration
+   * @returns The lease with its heartbeat running, or null if it is held
+   */
+  static async acquire(
+    reelId: string,
+    key: string,
+    delivery: TaskDelivery,
+    options: LeaseOptions = {}
+  ): Promise<ProcessingLease | null> {
+    const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    const reelRef = admin.firestore().collection('aiReels').doc(reelId);
+    const owner = randomUUID();
+
+    const acquired = await admin.firestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(reelRef);
+      const current = snapshot.data()?.leases?.[key];
+      const now = Timestamp.now();
+
+      if (current && !canTakeOver(current, delivery, now.toMillis())) {
+        console.log(`🔒 Lease ${key} of reel ${reelId} is held by ${current.owner}`);
+        return null;
+      }
+
+      const attempt = (current?.attempt ?? 0) + 1;
+      transaction.update(reelRef, {
+        [`leases.${key}`]: {
+          owner,
+          taskId: delivery.taskId,
+          retryCount: delivery.retryCount,
+          expiresAt: Timestamp.fromMillis(now.toMillis() + ttlMs),
+          attempt,
+          acquiredAt: now
+        }
+      });
+      // Finished holders release the lease, so one that is still there was left behind
+      return { attempt, tookOver: !!current };
+    });
+
+    if (!acquired) {
+      return null;
+    }
+    if (acquired.tookOver) {
+      console.log(`🔓 Took over stale lease ${key} of reel ${reelId}`);
+    }
+
+    const lease = new ProcessingLease(reelId, key, owner, ttlMs, acquired.attempt, acquired.tookOver);
+    lease.startHeartbeat();
+    return lease;
+  }
+
+  /**
+   * Stops the heartbeat and removes the lease if this worker still holds it
+   */
+  public async release(): Promise<void> {
+    this.stopHeartbeat();
+    try {
+      await this.update(() => FieldValue.delete());
+    } catch (error) {
+      // An unreleased lease only delays a duplicate until it expires
+      console.error(`Failed to release lease ${this.key} of reel ${this.reelId}:`, error);
+    }
+  }
+
+  private startHeartbeat(): void {
+    this.heartbeat = setInterval(() => {
+      this.update(() => Timestamp.fromMillis(Date.now() + this.ttlMs), 'expiresAt')
+        .then((held) => {
+          if (!held) {
+            console.warn(`⚠️ Lost lease ${this.key} of reel ${this.reelId}`);
+            this.stopHeartbeat();
+          }
+        })
+        .catch((error) => console.error(`Failed to renew lease ${this.key} of reel ${this.reelId}:`, error));
+    }, this.ttlMs * HEARTBEAT_SHARE);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
+  // Writes the lease (or one of its fields) if this worker still owns it
+  private async update(value: () => FieldValue | Timestamp, field?: string): Promise<boolean> {
+    const reelRef = admin.firestore().collection('aiReels').doc(this.reelId);
+    return admin.firestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(reelRef);
+      if (snapshot.data()?.leases?.[this.key]?.owner !== this.owner) {
+        return false;
+      }
+      const path = field ? `leases.${this.key}.${field}` : `leases.${this.key}`;
+      transaction.update(reelRef, { [path]: value() });
+      return true;
+    });
+  }
+}
@@ -0,0 +1,143 @@
+import * as admin from 'firebase-admin';
+import { DocumentData, FieldValue, Timestamp, UpdateData } from 'firebase-admin/firestore';
+
+export interface ProgressReporterOptions {
+  sceneIndex?: number; // Set when this reporter covers one of several parallel scene renders
+  sceneCount?: number;
+  minIntervalMs?: number;
+}
+
+const DEFAULT_MIN_INTERVAL_MS = 3000;
+const MIN_PROGRESS_STEP = 0.01;
+// Below this the elapsed time says too little about the remaining time
+const MIN_PROGRESS_FOR_ETA = 0.05;
+
+/**
+ * Streams sub-stage progress to the reel document. A stage owns a slice of the
+ * overall progress (e.g. 0.7 - 0.85 for scene renders) and reports fractions of
+ * it; writes are throttled so ffmpeg progress events do not flood Firestore.
+ */
+export class ProgressReporter {
+  private readonly minIntervalMs: number;
+  private lastWriteAt = 0;
+  private lastFraction = 0;
+  private latest: { fraction: number; detail?: string } | null = null;
+  private pendingWrite: Promise<void> | null = null;
+
+  constructor(
+    private readonly reelId: string,
+    private readonly start: number,
+    private readonly end: number,
+    private readonly options: ProgressReporterOptions = {}
+  ) {
+    // Parallel scene tasks all write to the same document, so each one writes
+    // less often to stay clear of Firestore's per-document write rate
+    this.minIntervalMs = options.minIntervalMs
+      ?? Math.max(DEFAULT_MIN_INTERVAL_MS, (options.sceneCount ?? 1) * 1000);
+  }
+
+  /**
+   * Records progress within the stage; written at most once per interval
+   * @param fraction - Completed fraction of the stage (0 - 1)
+   * @param detail - Optional human readable description (e.g. 'Downloading media for scene 2 of 6')
+   */
+  public report(fraction: number, detail?: string): void {
+    this.latest = { fraction: Math.min(1, Math.max(0, fraction)), detail };
+
+    const now = Date.now();
+    if (this.pendingWrite || now - this.lastWriteAt < this.minIntervalMs) {
+      return;
+    }
+    if (this.latest.fraction - this.lastFraction < MIN_PROGRESS_STEP && this.latest.fraction < 1) {
+      return;
+    }
+    this.writeLatest();
+  }
+
+  /**
+   * Writes the latest reported progress immediately and waits for it
+   */
+  public async flush(): Promise<void> {
+    if (this.pendingWrite) {
+      await this.pendingWrite;
+    }
+    if (this.latest) {
+      this.writeLatest();
+      await this.pendingWrite;
+    }
+  }
+
+  private writeLatest(): void {
+    const latest = this.latest;
+    if (!latest) return;
+
+    this.latest = null;
+    this.lastWriteAt = Date.now();
+    this.lastFraction = latest.fraction;
+    this.pendingWrite = this.write(latest.fraction, latest.detail)
+      .catch((error) => {
+        // Progress is cosmetic, so never fail the stage over it
+        console.error('Failed to write progress:', error);
+      })
+      .finally(() => {
+        this.pendingWrite = null;
+      });
+  }
+
+  private async write(fraction: number, detail?: string): Promise<void> {
+    const reelRef = admin.firestore().collection('aiReels').doc(this.reelId);
+    await admin.firestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(reelRef);
+      const data = snapshot.data();
+      if (!data || ['completed', 'failed', 'cancelled'].includes(data.status)) {
+        return;
+      }
+
+      const updates: UpdateData<DocumentData> = {
+        updatedAt: FieldValue.serverTimestamp()
+      };
+
+      let stageFraction = fraction;
+      const { sceneIndex, sceneCount } = this.options;
+      if (sceneIndex !== undefined && sceneCount) {
+        // Combine with the progress of the other scene tasks; rendered scenes count as done
+        const sceneProgress: Record<string, number> = { ...data.sceneProgress, [sceneIndex]: fraction };
+        const sceneRenders: Record<string, string> = data.sceneRenders ?? {};
+        let completed = 0;
+        let total = 0;
+        for (let i = 0; i < sceneCount; i++) {
+          const value = sceneRenders[i] ? 1 : (sceneProgress[i] ?? 0);
+          total += value;
+          if (value >= 1) completed++;
+        }
+        stageFraction = total / sceneCount;
+        updates[`sceneProgress.${sceneIndex}`] = fraction;
+        detail = detail ?? `Rendered ${completed} of ${sceneCount} scenes`;
+      }
+
+      const progress = this.start + (this.end - this.start) * stageFraction;
+      // Never move the bar backwards, e.g. when a slower scene task writes late
+      if (progress > (data.progress ?? 0)) {
+        updates.progress = progress;
+        const etaSeconds = this.estimateRemainingSeconds(data.processingStartedAt, progress);
+        if (etaSeconds !== null) {
+          updates.etaSeconds = etaSeconds;
+        }
+      }
+      if (detail) {
+        updates.progressDetail = detail;
+      }
+
+      transaction.update(reelRef, updates);
+    });
+  }
+
+  // Extrapolates the average rate since processing started
+  private estimateRemainingSeconds(startedAt: Timestamp | undefined, progress: number): number | null {
+    if (!startedAt || progress < MIN_PROGRESS_FOR_ETA) {
+      return null;
+    }
+    const elapsedSeconds = (Date.now() - startedAt.toMillis()) / 1000;
+    return Math.max(0, Math.round(elapsedSeconds * (1 - progress) / progress));
+  }
+}
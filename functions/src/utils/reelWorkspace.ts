@@ -3,21 +3,29 @@ import * as os from 'os';
 import * as path from 'path';
 import axios from 'axios';
 
-export class TempFileManager {
-  private static instance: TempFileManager;
+/**
+ * Scratch space for a single reel generation. Each workspace owns its own
+ * directory and tracked-file set, so concurrent reels in the same instance
+ * can never clean up each other's files.
+ */
+export class ReelWorkspace {
   private trackedFiles: Set<string>;
-  private readonly tempDir: string;
+  private disposed = false;
+  public readonly dir: string;
 
-  private constructor() {
+  private constructor(dir: string) {
     this.trackedFiles = new Set<string>();
-    this.tempDir = os.tmpdir();
+    this.dir = dir;
   }
 
-  public static getInstance(): TempFileManager {
-    if (!TempFileManager.instance) {
-      TempFileManager.instance = new TempFileManager();
-    }
-    return TempFileManager.instance;
+  /**
+   * Creates a fresh workspace directory for a reel
+   * @param reelId - ID of the reel the workspace belongs to
+   */
+  public static create(reelId: string): ReelWorkspace {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), `reel-${reelId}-`));
+    console.log(`📁 Created workspace for reel ${reelId}: ${dir}`);
+    return new ReelWorkspace(dir);
   }
 
   /**
@@ -25,26 +33,26 @@ export class TempFileManager {
    * @param url - URL to download from
    * @param prefix - Prefix for the temp file name
    * @param extension - File extension including the dot (e.g., '.mp4')
+   * @param signal - Optional signal to abort the download
    * @returns The path to the downloaded file
    */
-  public async downloadFile(url: string, prefix: string, extension: string): Promise<string> {
+  public async downloadFile(url: string, prefix: string, extension: string, signal?: AbortSignal): Promise<string> {
     const filePath = this.createTempFilePath(prefix, extension);
     
     try {
       const response = await axios({
         method: 'get',
         url: url,
-        responseType: 'stream'
+        responseType: 'stream',
+        signal
       });
 
       await new Promise<void>((resolve, reject) => {
         const writer = fs.createWriteStream(filePath);
+        response.data.on('error', reject);
         response.data.pipe(writer);
         writer.on('finish', resolve);
-        writer.on('error', (error) => {
-          this.removeFile(filePath);
-          reject(error);
-        });
+        writer.on('error', reject);
       });
 
       return filePath;
@@ -55,14 +63,17 @@ export class TempFileManager {
   }
 
   /**
-   * Creates a temporary file path and tracks it
+   * Creates a temporary file path inside the workspace and tracks it
    * @param prefix - Prefix for the temp file name
    * @param extension - File extension including the dot (e.g., '.mp4')
    * @returns The full path to the temporary file
    */
   public createTempFilePath(prefix: string, extension: string): string {
+    if (this.disposed) {
+      throw new Error(`Workspace ${this.dir} has already been disposed`);
+    }
     const fileName = `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}${extension}`;
-    const filePath = path.join(this.tempDir, fileName);
+    const filePath = path.join(this.dir, fileName);
     this.trackFile(filePath);
     return filePath;
   }
@@ -113,6 +124,22 @@ export class TempFileManager {
     this.trackedFiles.clear();
   }
 
+  /**
+   * Deletes tracked files and the workspace directory itself, including
+   * anything written there without being tracked (e.g., ffmpeg screenshots)
+   */
+  public dispose(): void {
+    if (this.disposed) return;
+    this.cleanup();
+    try {
+      fs.rmSync(this.dir, { recursive: true, force: true });
+      console.log(`🧹 Disposed workspace: ${this.dir}`);
+    } catch (error) {
+      console.error(`Failed to remove workspace ${this.dir}:`, error);
+    }
+    this.disposed = true;
+  }
+
   /**
    * Gets the number of tracked files
    */
@@ -126,4 +153,4 @@ export class TempFileManager {
   public getTrackedFiles(): string[] {
     return Array.from(this.trackedFiles);
   }
-} 
\ No newline at end of file
+}
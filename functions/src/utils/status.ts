@@ -1,6 +1,7 @@
 import * as admin from 'firebase-admin';
-import { ReelStatus } from '../types';
+import { AiReel, ReelStatus } from '../types';
 import { FieldValue } from 'firebase-admin/firestore';
+import { ReelCancelledError, ReelError, toReelError } from './errors';
 
 export const getProgressForStatus = (status: ReelStatus): number => {
   switch (status) {
@@ -8,9 +9,10 @@ export const getProgressForStatus = (status: ReelStatus): number => {
       return 0.0;
     case 'analyzing':
       return 0.1;
-    case 'generatingVoiceover':
-      return 0.3;
     case 'gatheringVisuals':
+      return 0.3;
+    case 'awaitingApproval':
+    case 'generatingVoiceover':
       return 0.5;
     case 'assemblingVideo':
       return 0.7;
@@ -26,12 +28,46 @@ export const getProgressForStatus = (status: ReelStatus): number => {
   }
 };
 
+const isTerminalStatus = (status: string): boolean =>
+  ['completed', 'failed', 'cancelled'].includes(status);
+
+// Writes a status update unless the reel was cancelled in the meantime, so a
+// pipeline that is still winding down can never flip a cancelled reel back
+async function writeStatusUnlessCancelled(
+  reelId: string,
+  data: { status: string; [field: string]: unknown }
+): Promise<void> {
+  const reelRef = admin.firestore().collection('aiReels').doc(reelId);
+  await admin.firestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(reelRef);
+    if (data.status !== 'cancelled' && snapshot.data()?.status === 'cancelled') {
+      throw new ReelCancelledError(reelId);
+    }
+    transaction.update(reelRef, data);
+  });
+}
+
+/**
+ * Writes the reel's status with its progress, unless the reel was cancelled
+ * @param reelId - ID of the aiReels document
+ * @param status - New status
+ * @param error - Error of a failed reel
+ * @param fields - Other fields written in the same update, e.g. the video URL
+ *   of a completed reel, so the app never sees the status without them
+ */
 export async function updateReelStatus(
   reelId: string,
   status: string,
-  error?: string
+  error?: string | ReelError,
+  fields: Record<string, unknown> = {}
 ): Promise<void> {
   console.log('📊 Updating reel status:', { reelId, status, error });
+
+  // The app shows the user message and uses the code and retryable flag to
+  // decide whether to offer a retry; plain strings stay as they are
+  const errorFields = error instanceof ReelError
+    ? { error: error.userMessage, errorCode: error.code, retryable: error.retryable }
+    : { error: error || null, errorCode: null, retryable: null };
   
   // Get the progress value for this status
   const progress = getProgressForStatus(status as ReelStatus);
@@ -40,38 +76,81 @@ export async function updateReelStatus(
   try {
     const updateData = {
       status,
-      error: error || null,
+      ...errorFields,
       progress,
+      progressDetail: null, // Sub-stage detail belongs to the previous status
+      ...(isTerminalStatus(status) ? { etaSeconds: null } : {}),
+      ...fields,
       updatedAt: FieldValue.serverTimestamp()
     };
 
     console.log('Updating Firestore with:', updateData);
-    await admin.firestore().collection('aiReels').doc(reelId).update(updateData);
+    await writeStatusUnlessCancelled(reelId, updateData);
     console.log('✅ Status update successful');
   } catch (error: any) {
+    if (error instanceof ReelCancelledError) {
+      console.log(`Skipping status update to ${status}, reel was cancelled`);
+      throw error;
+    }
     console.error('❌ Error in updateReelStatus:', error);
     // Fallback to regular timestamp if serverTimestamp fails
     const fallbackData = {
       status,
-      error: error?.message || null,
+      ...errorFields,
       progress,
+      progressDetail: null,
+      ...(isTerminalStatus(status) ? { etaSeconds: null } : {}),
+      ...fields,
       updatedAt: new Date()
     };
     
     try {
-      await admin.firestore().collection('aiReels').doc(reelId).update(fallbackData);
+      await writeStatusUnlessCancelled(reelId, fallbackData);
       console.log('✅ Status update successful using fallback timestamp');
     } catch (retryError) {
+      if (retryError instanceof ReelCancelledError) {
+        throw retryError;
+      }
       console.error('❌ Failed to update status even with fallback:', retryError);
       throw retryError; // Re-throw if both attempts fail
     }
   }
 }
 
-export const handleError = async (reelId: string, error: Error) => {
+/**
+ * Cancels a reel that is still being generated. The status is checked and
+ * written in one transaction, so a cancel that races the last stage cannot
+ * turn a finished reel into a cancelled one.
+ * @param reelId - ID of the aiReels document
+ * @returns The reel as it was before the cancel, or null if it is missing or
+ *   already completed, failed or cancelled
+ */
+export async function cancelReel(reelId: string): Promise<AiReel | null> {
+  const reelRef = admin.firestore().collection('aiReels').doc(reelId);
+  return admin.firestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(reelRef);
+    const reel = snapshot.data() as AiReel | undefined;
+    if (!reel || isTerminalStatus(reel.status)) {
+      return null;
+    }
+    transaction.update(reelRef, {
+      status: 'cancelled',
+      error: null,
+      errorCode: null,
+      retryable: null,
+      progress: getProgressForStatus('cancelled'),
+      progressDetail: null,
+      etaSeconds: null,
+      updatedAt: FieldValue.serverTimestamp()
+    });
+    return reel;
+  });
+}
+
+export const handleError = async (reelId: string, error: unknown) => {
   try {
     console.error(`Error processing reel ${reelId}:`, error);
-    await updateReelStatus(reelId, 'failed', error.message);
+    await updateReelStatus(reelId, 'failed', toReelError(error));
   } catch (updateError) {
     // Log but don't throw to prevent infinite error loops
     console.error('Failed to handle error:', updateError);
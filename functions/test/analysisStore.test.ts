@@ -0,0 +1,40 @@
+import { AnalysisInputs, getAnalysisCacheKey, hashScript } from '../src/services/analysisStore';
+import { getLanguage } from '../src/utils/languages';
+
+// Script analysis loads the LLM providers and their config; only the prompt version matters here
+jest.mock('../src/services/videoAnalysis', () => ({ PROMPT_VERSION: 1 }));
+
+const SCRIPT = 'Prices rose again. The Fed met on Tuesday.';
+
+describe('hashScript', () => {
+  it('hashes the script content', () => {
+    expect(hashScript(SCRIPT)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashScript(SCRIPT)).toBe(hashScript('Prices rose again. The Fed met on Tuesday.'));
+    expect(hashScript(SCRIPT)).not.toBe(hashScript(`${SCRIPT} Markets fell.`));
+  });
+});
+
+describe('getAnalysisCacheKey', () => {
+  const inputs: AnalysisInputs = {
+    scriptId: 'script-1',
+    script: SCRIPT,
+    tone: 'professional',
+    language: getLanguage('en'),
+    targetDuration: 30,
+    sceneCountRange: { min: 7, max: 10 }
+  };
+
+  it('gives copies of a script the same key', () => {
+    expect(getAnalysisCacheKey({ ...inputs, scriptId: 'script-2' })).toBe(getAnalysisCacheKey(inputs));
+  });
+
+  it('changes with the script content and every reel setting', () => {
+    const key = getAnalysisCacheKey(inputs);
+    expect(getAnalysisCacheKey({ ...inputs, script: `${SCRIPT} Markets fell.` })).not.toBe(key);
+    expect(getAnalysisCacheKey({ ...inputs, tone: 'dramatic' })).not.toBe(key);
+    expect(getAnalysisCacheKey({ ...inputs, language: getLanguage('es') })).not.toBe(key);
+    expect(getAnalysisCacheKey({ ...inputs, targetDuration: 60 })).not.toBe(key);
+    expect(getAnalysisCacheKey({ ...inputs, sceneCountRange: { min: 5, max: 8 } })).not.toBe(key);
+    expect(getAnalysisCacheKey({ ...inputs, sceneCountRange: undefined })).not.toBe(key);
+  });
+});
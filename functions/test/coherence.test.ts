@@ -0,0 +1,37 @@
+import { VisualCoherence } from '../src/services/coherence';
+import { PixabayMedia } from '../src/types';
+
+const media = (url: string, tags: string[]): PixabayMedia => ({ type: 'video', url, width: 1080, height: 1920, tags });
+
+describe('VisualCoherence.rankCandidates', () => {
+  it('puts candidates matching the theme first', () => {
+    const coherence = new VisualCoherence(
+      { mainVisualTheme: 'Financial district skyline', visualMotifs: ['glass towers'] },
+      async () => null
+    );
+    const ranked = coherence.rankCandidates([
+      media('beach', ['beach', 'sand']),
+      media('untagged', []),
+      media('towers', ['skyline', 'towers', 'financial'])
+    ]);
+    expect(ranked.map(candidate => [candidate.url, candidate.coherenceScore])).toEqual([
+      ['towers', 0.7],
+      ['untagged', 0.5],
+      ['beach', 0.3]
+    ]);
+  });
+
+  it('prefers the look of the clips chosen for earlier scenes', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const coherence = new VisualCoherence({ mainVisualTheme: '', visualMotifs: [] }, async () => ({ r: 20, g: 20, b: 40 }));
+    await coherence.pickBest([{ ...media('first', ['city', 'night']), localPath: '/tmp/first.mp4' }]);
+
+    const ranked = coherence.rankCandidates([
+      media('cartoon', ['city', 'night', 'cartoon']),
+      media('day', ['city', 'daylight']),
+      media('night', ['city', 'night'])
+    ]);
+    expect(ranked[0].url).toBe('night');
+    expect(ranked[0].coherenceScore).toBeGreaterThan(ranked[1].coherenceScore ?? 1);
+  });
+});
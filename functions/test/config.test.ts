@@ -0,0 +1,74 @@
+type Config = typeof import('../src/config').default;
+
+const REQUIRED_ENV = {
+  PIXABAY_API_KEY: 'pixabay-key',
+  ELEVENLABS_API_KEY: 'elevenlabs-key',
+  JAMENDO_API_KEY: 'jamendo-key',
+  PEXELS_API_KEY: 'pexels-key'
+};
+
+// Loads the config module afresh with only the given variables set
+const loadConfig = (env: Record<string, string>): Config => {
+  const original = process.env;
+  process.env = { ...REQUIRED_ENV, ...env };
+  try {
+    let config: Config | undefined;
+    jest.isolateModules(() => {
+      config = require('../src/config').default;
+    });
+    return config as Config;
+  } finally {
+    process.env = original;
+  }
+};
+
+describe('config', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  describe('LLM_PROVIDERS', () => {
+    it('defaults to openai', () => {
+      expect(loadConfig({ OPENAI_API_KEY: 'openai-key' }).llm.providers).toEqual(['openai']);
+    });
+
+    it('keeps the listed fallback order', () => {
+      const config = loadConfig({
+        LLM_PROVIDERS: 'anthropic, local',
+        ANTHROPIC_API_KEY: 'anthropic-key',
+        LOCAL_LLM_BASE_URL: 'http://localhost:11434/v1'
+      });
+      expect(config.llm.providers).toEqual(['anthropic', 'local']);
+    });
+
+    it('rejects unknown providers', () => {
+      expect(() => loadConfig({ LLM_PROVIDERS: 'openai,gemini', OPENAI_API_KEY: 'openai-key' }))
+        .toThrow('Unknown LLM provider in LLM_PROVIDERS: gemini');
+    });
+
+    it('requires the settings of the listed providers only', () => {
+      expect(() => loadConfig({ LLM_PROVIDERS: 'openai' })).toThrow('OPENAI_API_KEY');
+      expect(() => loadConfig({ LLM_PROVIDERS: 'anthropic' })).toThrow('ANTHROPIC_API_KEY');
+      expect(() => loadConfig({ LLM_PROVIDERS: 'local' })).toThrow('LOCAL_LLM_BASE_URL');
+      expect(loadConfig({ LLM_PROVIDERS: 'anthropic', ANTHROPIC_API_KEY: 'anthropic-key' }).openai.apiKey).toBe('');
+    });
+  });
+
+  describe('temperatures', () => {
+    it('default to 0.7', () => {
+      expect(loadConfig({ OPENAI_API_KEY: 'openai-key' }).llm.openai.temperature).toBe(0.7);
+    });
+
+    it('are read as numbers', () => {
+      const config = loadConfig({ OPENAI_API_KEY: 'openai-key', OPENAI_TEMPERATURE: '0', ANTHROPIC_TEMPERATURE: '0.2' });
+      expect(config.llm.openai.temperature).toBe(0);
+      expect(config.llm.anthropic.temperature).toBe(0.2);
+    });
+
+    it('reject values that are not numbers', () => {
+      expect(() => loadConfig({ OPENAI_API_KEY: 'openai-key', OPENAI_TEMPERATURE: 'warm' }))
+        .toThrow('OPENAI_TEMPERATURE must be a number, got: warm');
+    });
+  });
+});
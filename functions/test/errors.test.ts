@@ -0,0 +1,76 @@
+import {
+  ProviderAuthError,
+  ProviderQuotaError,
+  ReelError,
+  ReelTimeoutError,
+  rethrowProviderAccessError,
+  toProviderError,
+  toReelError
+} from '../src/utils/errors';
+
+// Errors as axios and the OpenAI SDK throw them
+const axiosError = (status: number) => Object.assign(new Error(`Request failed with status code ${status}`), { response: { status } });
+const sdkError = (status: number) => Object.assign(new Error(`${status} status code`), { status });
+const timeoutError = () => Object.assign(new Error('timeout of 30000ms exceeded'), { code: 'ECONNABORTED' });
+
+describe('toProviderError', () => {
+  it('turns rejected keys into auth errors that are not worth a retry', () => {
+    for (const error of [axiosError(401), sdkError(403)]) {
+      const reelError = toProviderError(error, 'pexels', 'Search failed');
+      expect(reelError).toBeInstanceOf(ProviderAuthError);
+      expect(reelError).toMatchObject({ code: 'PROVIDER_AUTH', retryable: false, provider: 'pexels' });
+    }
+  });
+
+  it('turns rate limits into retryable quota errors', () => {
+    for (const error of [axiosError(429), sdkError(429)]) {
+      expect(toProviderError(error, 'openai', 'Analysis failed')).toMatchObject({ code: 'PROVIDER_QUOTA', retryable: true });
+    }
+  });
+
+  it('turns timeouts into retryable timeout errors', () => {
+    const sdkTimeout = Object.assign(new Error('Request timed out.'), { name: 'APIConnectionTimeoutError' });
+    for (const error of [timeoutError(), sdkTimeout]) {
+      expect(toProviderError(error, 'openai', 'Analysis failed')).toBeInstanceOf(ReelTimeoutError);
+    }
+  });
+
+  it('treats anything else as an unknown, retryable failure', () => {
+    const reelError = toProviderError(axiosError(500), 'jamendo', 'Music search failed');
+    expect(reelError).toMatchObject({
+      code: 'UNKNOWN',
+      retryable: true,
+      message: 'Music search failed: Request failed with status code 500'
+    });
+  });
+
+  it('passes reel errors through unchanged', () => {
+    const quota = new ProviderQuotaError('elevenlabs', 'Quota exceeded');
+    expect(toProviderError(quota, 'openai', 'Analysis failed')).toBe(quota);
+  });
+});
+
+describe('rethrowProviderAccessError', () => {
+  it('rethrows auth and rate limit failures as provider errors', () => {
+    expect(() => rethrowProviderAccessError(axiosError(403), 'pixabay')).toThrow(ProviderAuthError);
+    expect(() => rethrowProviderAccessError(axiosError(429), 'pixabay')).toThrow(ProviderQuotaError);
+  });
+
+  it('lets the search move on after other failures', () => {
+    expect(() => rethrowProviderAccessError(axiosError(500), 'pixabay')).not.toThrow();
+    expect(() => rethrowProviderAccessError(timeoutError(), 'pixabay')).not.toThrow();
+  });
+});
+
+describe('toReelError', () => {
+  it('passes reel errors through unchanged', () => {
+    const auth = new ProviderAuthError('openai', 'Invalid API key');
+    expect(toReelError(auth)).toBe(auth);
+  });
+
+  it('classifies timeouts and everything else', () => {
+    expect(toReelError(timeoutError())).toMatchObject({ code: 'TIMEOUT', retryable: true });
+    expect(toReelError('ffmpeg was killed')).toMatchObject({ code: 'UNKNOWN', retryable: true, message: 'ffmpeg was killed' });
+    expect(toReelError(new Error('boom'))).toBeInstanceOf(ReelError);
+  });
+});
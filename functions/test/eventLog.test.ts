@@ -0,0 +1,83 @@
+import { FfmpegError, ReelCancelledError, ReelEventLog, getFailureOutcome, serializeError } from '../src/utils';
+
+// Events added to the reel's events subcollection
+let mockEvents: Record<string, unknown>[];
+
+jest.mock('firebase-admin', () => {
+  const events = { add: async (data: Record<string, unknown>) => mockEvents.push(data) };
+  return {
+    firestore: () => ({
+      collection: () => ({ doc: () => ({ collection: () => events }) })
+    })
+  };
+});
+
+const STARTED_AT = new Date('2025-01-01T12:00:00Z');
+const ENDED_AT = new Date('2025-01-01T12:00:02Z');
+
+describe('ReelEventLog', () => {
+  beforeEach(() => {
+    mockEvents = [];
+  });
+
+  it('drops unset fields, which Firestore would reject', async () => {
+    await new ReelEventLog('reel', { stage: 'media' }).record({
+      type: 'provider',
+      name: 'pexels.search',
+      provider: 'pexels',
+      attempt: undefined,
+      outcome: 'succeeded',
+      startedAt: STARTED_AT,
+      endedAt: ENDED_AT,
+      details: { keywords: ['city', 'night'], matched: undefined, search: { page: 1, orientation: undefined } }
+    });
+
+    const [event] = mockEvents;
+    expect(event).not.toHaveProperty('attempt');
+    expect(event).not.toHaveProperty('sceneIndex');
+    expect(event).toMatchObject({
+      stage: 'media',
+      durationMs: 2000,
+      details: { keywords: ['city', 'night'], search: { page: 1 } }
+    });
+    expect(event.details).toEqual({ keywords: ['city', 'night'], search: { page: 1 } });
+    expect(event.startedAt).toBe(STARTED_AT);
+  });
+
+  it('records and rethrows the failure of a provider call', async () => {
+    const log = new ReelEventLog('reel', { stage: 'render', sceneIndex: 2 });
+    const failure = new FfmpegError('ffmpeg exited with code 1');
+    await expect(log.trackProviderCall('ffmpeg.render', { provider: 'ffmpeg' }, () => Promise.reject(failure)))
+      .rejects.toBe(failure);
+    expect(mockEvents[0]).toMatchObject({
+      sceneIndex: 2,
+      outcome: 'failed',
+      error: { name: 'FfmpegError', message: 'ffmpeg exited with code 1', code: 'FFMPEG_FAILED' }
+    });
+  });
+});
+
+describe('serializeError', () => {
+  it('keeps the code of reel errors', () => {
+    expect(serializeError(new ReelCancelledError('reel'))).toEqual({
+      name: 'ReelCancelledError',
+      message: 'Reel reel was cancelled',
+      code: 'CANCELLED'
+    });
+  });
+
+  it('keeps the name and message of other errors', () => {
+    expect(serializeError(new TypeError('Bad input'))).toEqual({ name: 'TypeError', message: 'Bad input' });
+  });
+
+  it('stringifies anything else that was thrown', () => {
+    expect(serializeError('socket hang up')).toEqual({ name: 'Error', message: 'socket hang up' });
+  });
+});
+
+describe('getFailureOutcome', () => {
+  it('tells cancellations from failures', () => {
+    expect(getFailureOutcome(new ReelCancelledError())).toBe('cancelled');
+    expect(getFailureOutcome(new Error('boom'))).toBe('failed');
+  });
+});
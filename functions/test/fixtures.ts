@@ -0,0 +1,31 @@
+import { ReelPacing } from '../src/services/pacing';
+import { VideoScene } from '../src/types';
+
+// A script with section headers, which are not narrated
+export const SCRIPT = '[HOOK]\nPrices rose again.\n\n[KEY POINT 1]\nThe Fed met on Tuesday. Markets fell.';
+
+// A 9 second reel of exactly three 2 - 4 second scenes
+export const PACING: ReelPacing = {
+  targetDuration: 9,
+  minDuration: 8,
+  maxDuration: 10,
+  durationSlack: 1,
+  minScenes: 3,
+  maxScenes: 3,
+  minSceneDuration: 2,
+  maxSceneDuration: 4
+};
+
+export const scene = (overrides: Partial<VideoScene> = {}): VideoScene => ({
+  id: 'scene-0',
+  startTime: 0,
+  duration: 3,
+  description: 'Traders on a busy floor',
+  primaryKeywords: ['stock market'],
+  secondaryKeywords: ['traders'],
+  mood: 'tense',
+  visualType: 'b-roll',
+  transition: { type: 'fade', duration: 0.5 },
+  effect: { type: 'ken_burns', intensity: 0.3 },
+  ...overrides
+});
@@ -0,0 +1,58 @@
+import fs from 'fs';
+import { GraphicsService, escapeAssText } from '../src/services/graphics';
+import { ReelWorkspace, getLanguage } from '../src/utils';
+
+// Dialogue events of a written ASS file
+const dialogues = (assPath: string) => fs.readFileSync(assPath, 'utf8').split('\n').filter(line => line.startsWith('Dialogue:'));
+
+describe('escapeAssText', () => {
+  it('keeps text from starting override tags', () => {
+    expect(escapeAssText('{\\fs200}Big')).toBe('＼fs200Big');
+    expect(escapeAssText('C:\\new')).toBe('C:＼new');
+  });
+});
+
+describe('GraphicsService', () => {
+  let workspace: ReelWorkspace;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    workspace = ReelWorkspace.create('graphics-test');
+  });
+
+  afterEach(() => {
+    workspace.cleanup();
+  });
+
+  describe('createTextCard', () => {
+    it('writes the card text without override tags and with its line breaks', () => {
+      const graphics = new GraphicsService('professional', workspace);
+      const events = dialogues(graphics.createTextCard({ style: 'headline', text: 'Rates {\\b1}up\n again', subtext: 'Fed' }, 4, 0));
+      expect(events.some(event => event.endsWith('}Rates ＼b1up\\Nagain'))).toBe(true);
+      expect(events.every(event => event.includes('0:00:04.00'))).toBe(true);
+    });
+
+    it('embeds right-to-left text', () => {
+      const graphics = new GraphicsService('professional', workspace, getLanguage('ar'));
+      const events = dialogues(graphics.createTextCard({ style: 'stat', text: '٪42' }, 4, 0));
+      expect(events.some(event => event.endsWith('\u202B٪42\u202C'))).toBe(true);
+    });
+  });
+
+  describe('createLowerThird', () => {
+    it('skips scenes too short to read the lower-third', () => {
+      const graphics = new GraphicsService('professional', workspace);
+      expect(graphics.createLowerThird({ kind: 'name', text: 'Jerome Powell', subtext: 'Fed Chair' }, 1.8, 0)).toBeNull();
+    });
+
+    it('shows the name after the cut and takes it down before the scene ends', () => {
+      const graphics = new GraphicsService('professional', workspace);
+      const lowerThirdPath = graphics.createLowerThird({ kind: 'name', text: 'Jerome Powell', subtext: 'Fed Chair' }, 2.7, 1);
+      const events = dialogues(lowerThirdPath as string);
+      expect(events.some(event => event.endsWith('}Jerome Powell'))).toBe(true);
+      // All events end together, 0.2 seconds before the cut
+      const ends = new Set(events.map(event => event.split(',')[2]));
+      expect([...ends]).toEqual(['0:00:02.50']);
+    });
+  });
+});
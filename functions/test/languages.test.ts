@@ -0,0 +1,22 @@
+import { DEFAULT_LANGUAGE, getLanguage } from '../src/utils/languages';
+
+describe('getLanguage', () => {
+  it('looks up supported languages', () => {
+    expect(getLanguage('ar')).toMatchObject({ code: 'ar', rtl: true });
+    expect(getLanguage('hi').code).toBe('hi');
+  });
+
+  it('falls back to English for unset codes', () => {
+    expect(DEFAULT_LANGUAGE).toBe('en');
+    expect(getLanguage().code).toBe('en');
+    expect(getLanguage(null).code).toBe('en');
+    expect(getLanguage('').code).toBe('en');
+  });
+
+  it('falls back to English for unsupported codes and says so', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(getLanguage('de').code).toBe('en');
+    expect(getLanguage('toString').code).toBe('en');
+    expect(warn).toHaveBeenCalledWith('Unsupported language de, using en');
+  });
+});
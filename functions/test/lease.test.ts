@@ -0,0 +1,45 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { canTakeOver, getLeaseKey } from '../src/utils/lease';
+
+const NOW = Date.parse('2025-01-01T12:00:00Z');
+
+const lease = (overrides: { taskId?: string; retryCount?: number; expiresInMs?: number | null } = {}) => ({
+  owner: 'owner-1',
+  taskId: overrides.taskId ?? 'task-1',
+  retryCount: overrides.retryCount ?? 0,
+  attempt: 1,
+  expiresAt: overrides.expiresInMs === null ? undefined : Timestamp.fromMillis(NOW + (overrides.expiresInMs ?? 60000))
+});
+
+describe('getLeaseKey', () => {
+  it('uses the stage for stage tasks', () => {
+    expect(getLeaseKey({ reelId: 'reel', stage: 'narration' })).toBe('narration');
+  });
+
+  it('gives each scene render its own key', () => {
+    expect(getLeaseKey({ reelId: 'reel', stage: 'render', sceneIndex: 0 })).toBe('render-0');
+    expect(getLeaseKey({ reelId: 'reel', stage: 'render', sceneIndex: 3 })).toBe('render-3');
+  });
+});
+
+describe('canTakeOver', () => {
+  it('takes over an expired lease', () => {
+    expect(canTakeOver(lease({ expiresInMs: -1 }), { taskId: 'task-2', retryCount: 0 }, NOW)).toBe(true);
+  });
+
+  it('takes over a lease without an expiry', () => {
+    expect(canTakeOver(lease({ expiresInMs: null }), { taskId: 'task-2', retryCount: 0 }, NOW)).toBe(true);
+  });
+
+  it('keeps a live lease from other tasks', () => {
+    expect(canTakeOver(lease(), { taskId: 'task-2', retryCount: 5 }, NOW)).toBe(false);
+  });
+
+  it('keeps a live lease from a duplicate delivery of the same task', () => {
+    expect(canTakeOver(lease({ retryCount: 1 }), { taskId: 'task-1', retryCount: 1 }, NOW)).toBe(false);
+  });
+
+  it('hands a live lease to a later retry of the same task', () => {
+    expect(canTakeOver(lease({ retryCount: 1 }), { taskId: 'task-1', retryCount: 2 }, NOW)).toBe(true);
+  });
+});
@@ -0,0 +1,56 @@
+import { FallbackLlmProvider } from '../src/services/llm/fallback';
+import { LlmProvider, LlmRequest } from '../src/services/llm/types';
+import { ProviderQuotaError, ReelCancelledError } from '../src/utils/errors';
+
+const REQUEST: LlmRequest = { messages: [{ role: 'user', content: 'Plan the scenes' }], json: true };
+
+const answering = (name: string): LlmProvider => ({
+  name,
+  complete: jest.fn(async () => ({ content: '{}', provider: name, model: `${name}-model` }))
+});
+
+const failing = (name: string, error: unknown): LlmProvider => ({
+  name,
+  complete: jest.fn(async () => { throw error; })
+});
+
+describe('FallbackLlmProvider', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('names the providers in their fallback order', () => {
+    expect(new FallbackLlmProvider([answering('openai'), answering('anthropic')]).name).toBe('openai>anthropic');
+    expect(() => new FallbackLlmProvider([])).toThrow('At least one LLM provider is required');
+  });
+
+  it('answers with the first provider that succeeds', async () => {
+    const anthropic = answering('anthropic');
+    const local = answering('local');
+    const provider = new FallbackLlmProvider([failing('openai', new ProviderQuotaError('openai', 'Rate limited')), anthropic, local]);
+    await expect(provider.complete(REQUEST)).resolves.toMatchObject({ provider: 'anthropic' });
+    expect(anthropic.complete).toHaveBeenCalledWith(REQUEST);
+    expect(local.complete).not.toHaveBeenCalled();
+  });
+
+  it('throws the last failure when every provider fails', async () => {
+    const provider = new FallbackLlmProvider([
+      failing('openai', new ProviderQuotaError('openai', 'Rate limited')),
+      failing('anthropic', new Error('Overloaded'))
+    ]);
+    await expect(provider.complete(REQUEST)).rejects.toMatchObject({ code: 'UNKNOWN', message: 'Overloaded' });
+  });
+
+  it('does not fall back once the reel is cancelled', async () => {
+    const anthropic = answering('anthropic');
+    const cancelled = new ReelCancelledError('reel');
+    await expect(new FallbackLlmProvider([failing('openai', cancelled), anthropic]).complete(REQUEST)).rejects.toBe(cancelled);
+
+    const controller = new AbortController();
+    controller.abort();
+    const aborted = new Error('Request was aborted.');
+    await expect(new FallbackLlmProvider([failing('openai', aborted), anthropic]).complete({ ...REQUEST, signal: controller.signal }))
+      .rejects.toBe(aborted);
+    expect(anthropic.complete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,59 @@
+import { describePacing, getReelPacing } from '../src/services/pacing';
+
+describe('getReelPacing', () => {
+  it('keeps the original pacing for a 30 second reel', () => {
+    expect(getReelPacing(30)).toEqual({
+      targetDuration: 30,
+      minDuration: 25,
+      maxDuration: 35,
+      durationSlack: 2,
+      minScenes: 7,
+      maxScenes: 10,
+      minSceneDuration: 2,
+      maxSceneDuration: 5
+    });
+  });
+
+  it('defaults to 30 seconds and clamps the target to 15 - 120', () => {
+    expect(getReelPacing().targetDuration).toBe(30);
+    expect(getReelPacing(5).targetDuration).toBe(15);
+    expect(getReelPacing(600).targetDuration).toBe(120);
+  });
+
+  it('gives longer reels more and longer scenes', () => {
+    const short = getReelPacing(15);
+    const long = getReelPacing(120);
+    expect(long.maxScenes).toBeGreaterThan(short.maxScenes);
+    expect(long.maxSceneDuration).toBeGreaterThan(short.maxSceneDuration);
+  });
+
+  it('uses a scene count range that fits the reel', () => {
+    const pacing = getReelPacing(30, { min: 5, max: 8 });
+    expect(pacing.minScenes).toBe(5);
+    expect(pacing.maxScenes).toBe(8);
+  });
+
+  it('orders a swapped scene count range', () => {
+    const pacing = getReelPacing(30, { min: 8, max: 5 });
+    expect(pacing.minScenes).toBe(5);
+    expect(pacing.maxScenes).toBe(8);
+  });
+
+  it('clamps a scene count range to what the reel length allows', () => {
+    // 12 - 18 seconds of 2 - 4 second scenes fit 3 - 9 scenes
+    expect(getReelPacing(15, { min: 20, max: 30 })).toMatchObject({ minScenes: 9, maxScenes: 9 });
+    expect(getReelPacing(15, { min: 1, max: 2 })).toMatchObject({ minScenes: 3, maxScenes: 3 });
+  });
+
+  it('ignores a scene count range that is not finite', () => {
+    expect(getReelPacing(30, { min: NaN, max: 8 })).toMatchObject({ minScenes: 7, maxScenes: 10 });
+  });
+});
+
+describe('describePacing', () => {
+  it('matches the guidance to the reel length', () => {
+    expect(describePacing(getReelPacing(15))).toContain('short teaser');
+    expect(describePacing(getReelPacing(30))).toContain('standard news reel');
+    expect(describePacing(getReelPacing(90))).toContain('longer explainer');
+  });
+});
@@ -0,0 +1,122 @@
+import { validatePlan } from '../src/services/planValidation';
+import { PACING, SCRIPT, scene } from './fixtures';
+
+// A scene as the model returns it, without the id and start time the pipeline
+// assigns; overrides may break the plan's types
+const planned = (overrides: Record<string, unknown> = {}) => ({ ...scene(), id: undefined, startTime: undefined, ...overrides });
+const narrated = (narration: string, overrides: Record<string, unknown> = {}) => planned({ narration, ...overrides });
+
+const plan = (overrides: Record<string, unknown> = {}) => ({
+  contextAnalysis: {
+    mainTopic: 'Interest rates',
+    category: 'finance',
+    targetAudience: 'investors',
+    mood: 'serious',
+    relatedThemes: ['inflation'],
+    visualConcepts: ['charts'],
+    keyEntities: { people: ['Jerome Powell'], organizations: ['Federal Reserve'], events: [] }
+  },
+  overallDirection: { mainVisualTheme: 'Financial district', defaultTransition: 'fade', defaultEffect: 'none' },
+  scenes: [
+    narrated('Prices rose again.'),
+    narrated('The Fed met on Tuesday.'),
+    narrated('Markets fell.')
+  ],
+  ...overrides
+});
+
+const errorsOf = (raw: unknown, script = SCRIPT): string[] => {
+  const result = validatePlan(raw, PACING, script);
+  return result.valid ? [] : result.errors;
+};
+
+describe('validatePlan', () => {
+  it('accepts a plan that follows the types, pacing and script', () => {
+    const result = validatePlan(plan(), PACING, SCRIPT);
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(result.plan.scenes.map(validScene => validScene.id)).toEqual(['scene-0', 'scene-1', 'scene-2']);
+    }
+  });
+
+  it('rejects a response that is not an object', () => {
+    expect(errorsOf([])).toEqual(['The response must be a JSON object']);
+  });
+
+  it('rejects a scene count outside the pacing', () => {
+    const raw = plan({ scenes: [narrated('Prices rose again. The Fed met on Tuesday.', { duration: 4 }), narrated('Markets fell.', { duration: 4 })] });
+    expect(errorsOf(raw)).toContain('"scenes" must contain 3-3 scenes, got 2');
+  });
+
+  it('rejects scene durations outside the pacing', () => {
+    const raw = plan({ scenes: [narrated('Prices rose again.', { duration: 8 }), narrated('The Fed met on Tuesday.'), narrated('Markets fell.')] });
+    expect(errorsOf(raw)).toEqual(expect.arrayContaining([
+      '"scenes[0].duration" must be 2-4 seconds, got 8',
+      'Scene durations must sum to 8-10 seconds, got 14'
+    ]));
+  });
+
+  it('names the allowed values of an unknown transition', () => {
+    const raw = plan({ scenes: [narrated('Prices rose again.', { transition: { type: 'spin' } }), narrated('The Fed met on Tuesday.'), narrated('Markets fell.')] });
+    expect(errorsOf(raw)).toEqual([expect.stringContaining('"scenes[0].transition.type" must be one of: fade, crossfade')]);
+  });
+
+  it('requires a text card on overlay scenes and drops lower-thirds from them', () => {
+    const missingCard = plan({ scenes: [narrated('Prices rose again.', { visualType: 'overlay' }), narrated('The Fed met on Tuesday.'), narrated('Markets fell.')] });
+    expect(errorsOf(missingCard)).toEqual(['"scenes[0].textCard" is required for overlay scenes and must be an object']);
+
+    const result = validatePlan(plan({
+      scenes: [
+        narrated('Prices rose again.', {
+          visualType: 'overlay',
+          textCard: { style: 'stat', text: '3.2%' },
+          lowerThird: { kind: 'name', text: 'Jerome Powell' }
+        }),
+        narrated('The Fed met on Tuesday.'),
+        narrated('Markets fell.')
+      ]
+    }), PACING, SCRIPT);
+    expect(result.valid && result.plan.scenes[0].lowerThird).toBeUndefined();
+  });
+
+  it('only accepts name lower-thirds of the key entities', () => {
+    const raw = plan({
+      scenes: [
+        narrated('Prices rose again.'),
+        narrated('The Fed met on Tuesday.', { lowerThird: { kind: 'name', text: 'Janet Yellen' } }),
+        narrated('Markets fell.')
+      ]
+    });
+    expect(errorsOf(raw)).toEqual([
+      '"scenes[1].lowerThird.text" must be one of the people or organizations in "contextAnalysis.keyEntities", got "Janet Yellen"'
+    ]);
+  });
+
+  describe('narration', () => {
+    it('does not expect the section headers to be narrated', () => {
+      expect(errorsOf(plan(), SCRIPT)).toEqual([]);
+    });
+
+    it('ignores case and punctuation', () => {
+      const raw = plan({ scenes: [narrated('prices rose again'), narrated('The Fed met on Tuesday'), narrated('MARKETS FELL!')] });
+      expect(errorsOf(raw)).toEqual([]);
+    });
+
+    it('rejects narration that changes the script', () => {
+      const raw = plan({ scenes: [narrated('Prices rose again.'), narrated('The Fed met on Monday.'), narrated('Markets fell.')] });
+      expect(errorsOf(raw)).toEqual([
+        '"scenes[1].narration" must continue the script verbatim from where the previous scene ended: "the fed met on tuesday markets fell..."'
+      ]);
+    });
+
+    it('rejects narration that stops before the end of the script', () => {
+      const raw = plan({ scenes: [narrated('Prices rose again.'), narrated('The Fed met'), narrated('on Tuesday.')] });
+      expect(errorsOf(raw)).toEqual(['The scenes\' narration must cover the whole script, but stops before "markets fell..."']);
+    });
+
+    it('requires every scene to have narration', () => {
+      const raw = plan({ scenes: [narrated('Prices rose again.'), narrated(''), narrated('The Fed met on Tuesday. Markets fell.')] });
+      expect(errorsOf(raw)).toEqual(['"scenes[1].narration" must be the non-empty script text spoken during the scene']);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { ProgressReporter } from '../src/utils/progress';
+
+// The reel document the reporter reads in its transaction, and the updates it writes
+let mockReel: Record<string, unknown> | undefined;
+let mockUpdates: Record<string, unknown>[];
+
+jest.mock('firebase-admin', () => ({
+  firestore: () => ({
+    collection: () => ({ doc: () => ({}) }),
+    runTransaction: async (run: (transaction: unknown) => Promise<void>) => run({
+      get: async () => ({ data: () => mockReel }),
+      update: (_ref: unknown, data: Record<string, unknown>) => mockUpdates.push(data)
+    })
+  })
+}));
+
+const startedSecondsAgo = (seconds: number) => Timestamp.fromMillis(Date.now() - seconds * 1000);
+
+describe('ProgressReporter', () => {
+  beforeEach(() => {
+    mockReel = { status: 'rendering', progress: 0 };
+    mockUpdates = [];
+  });
+
+  it('writes the progress within its slice of the bar', async () => {
+    const reporter = new ProgressReporter('reel', 0.2, 0.6);
+    reporter.report(0.5, 'Downloading media for scene 2 of 4');
+    await reporter.flush();
+    expect(mockUpdates).toEqual([expect.objectContaining({
+      progress: expect.closeTo(0.4),
+      progressDetail: 'Downloading media for scene 2 of 4'
+    })]);
+  });
+
+  it('never moves the bar backwards', async () => {
+    mockReel = { status: 'rendering', progress: 0.5 };
+    const reporter = new ProgressReporter('reel', 0, 1);
+    reporter.report(0.3, 'Mixing audio');
+    await reporter.flush();
+    expect(mockUpdates).toHaveLength(1);
+    expect(mockUpdates[0]).not.toHaveProperty('progress');
+    expect(mockUpdates[0]).not.toHaveProperty('etaSeconds');
+    expect(mockUpdates[0].progressDetail).toBe('Mixing audio');
+  });
+
+  it('leaves finished reels alone', async () => {
+    mockReel = { status: 'cancelled', progress: 0.3 };
+    const reporter = new ProgressReporter('reel', 0, 1);
+    reporter.report(0.8);
+    await reporter.flush();
+    expect(mockUpdates).toEqual([]);
+  });
+
+  it('extrapolates the remaining time from the rate so far', async () => {
+    mockReel = { status: 'rendering', progress: 0, processingStartedAt: startedSecondsAgo(60) };
+    const reporter = new ProgressReporter('reel', 0, 1);
+    reporter.report(0.25);
+    await reporter.flush();
+    expect(mockUpdates[0].etaSeconds).toBe(180);
+  });
+
+  it('gives no remaining time early on or without a start time', async () => {
+    mockReel = { status: 'rendering', progress: 0, processingStartedAt: startedSecondsAgo(60) };
+    const early = new ProgressReporter('reel', 0, 1);
+    early.report(0.04);
+    await early.flush();
+
+    mockReel = { status: 'rendering', progress: 0 };
+    const unstarted = new ProgressReporter('reel', 0, 1);
+    unstarted.report(0.5);
+    await unstarted.flush();
+
+    expect(mockUpdates.map(update => update.progress)).toEqual([0.04, 0.5]);
+    expect(mockUpdates.every(update => !('etaSeconds' in update))).toBe(true);
+  });
+
+  it('combines the progress of parallel scene renders', async () => {
+    mockReel = { status: 'rendering', progress: 0.7, sceneProgress: { 0: 0.5 }, sceneRenders: { 1: 'scene-1.mp4' } };
+    const reporter = new ProgressReporter('reel', 0.7, 0.85, { sceneIndex: 2, sceneCount: 3 });
+    reporter.report(0.5);
+    await reporter.flush();
+    expect(mockUpdates).toEqual([expect.objectContaining({
+      'sceneProgress.2': 0.5,
+      progress: expect.closeTo(0.8),
+      progressDetail: 'Rendered 1 of 3 scenes'
+    })]);
+  });
+
+  it('throttles writes until flushed', async () => {
+    const reporter = new ProgressReporter('reel', 0, 1);
+    reporter.report(0.2);
+    reporter.report(0.3);
+    reporter.report(0.4);
+    await reporter.flush();
+    expect(mockUpdates.map(update => update.progress)).toEqual([0.2, 0.4]);
+  });
+});
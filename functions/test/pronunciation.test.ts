@@ -0,0 +1,61 @@
+import { applyLexicon, getSpokenForm, parsePronunciation, restoreSpelling } from '../src/services/pronunciation';
+import { NarrationWord, PronunciationEntry } from '../src/types';
+
+const LEXICON: PronunciationEntry[] = [
+  { term: 'Xi', alias: 'Shee' },
+  { term: 'Xi Jinping', alias: 'Shee Jin-ping' },
+  { term: 'Zelenskyy', alias: 'Zeh LEN skee' },
+  { term: 'Nay', alias: 'Neigh' }
+];
+
+const SCRIPT = 'Zelenskyy met Xi Jinping, then Xi left. Nayeli stayed.';
+
+// Each word of the spoken text takes half a second
+const speak = (text: string): NarrationWord[] =>
+  text.split(/\s+/).map((word, index) => ({ word, start: index * 0.5, end: index * 0.5 + 0.4 }));
+
+describe('applyLexicon', () => {
+  it('replaces whole words only, longer terms first', () => {
+    expect(applyLexicon(SCRIPT, LEXICON)).toBe('Zeh LEN skee met Shee Jin-ping, then Shee left. Nayeli stayed.');
+  });
+
+  it('wraps phoneme entries in a phoneme tag', () => {
+    const nato = { term: 'NATO', phoneme: 'ˈneɪtoʊ' };
+    expect(applyLexicon('NATO allies met.', [nato])).toBe('<phoneme alphabet="ipa" ph="ˈneɪtoʊ">NATO</phoneme> allies met.');
+    expect(getSpokenForm(nato)).toContain('>NATO<');
+  });
+
+  it('leaves the text alone without a lexicon', () => {
+    expect(applyLexicon(SCRIPT, [])).toBe(SCRIPT);
+  });
+});
+
+describe('restoreSpelling', () => {
+  it('gives the spoken words back their original spelling', () => {
+    const restored = restoreSpelling(speak(applyLexicon(SCRIPT, LEXICON)), LEXICON);
+    expect(restored.map(word => word.word).join(' ')).toBe(SCRIPT);
+  });
+
+  it('merges the words of a multi-word alias, keeping their timing', () => {
+    const restored = restoreSpelling(speak(applyLexicon(SCRIPT, LEXICON)), LEXICON);
+    expect(restored[0]).toEqual({ word: 'Zelenskyy', start: 0, end: 1.4 });
+    expect(restored[2]).toEqual({ word: 'Xi Jinping,', start: 2, end: 2.9 });
+  });
+
+  it('does not restore aliases spoken as part of other words', () => {
+    const words = speak('Neighbours said Neigh.');
+    expect(restoreSpelling(words, LEXICON).map(word => word.word)).toEqual(['Neighbours', 'said', 'Nay.']);
+  });
+});
+
+describe('parsePronunciation', () => {
+  it('requires exactly one of alias and phoneme', () => {
+    expect(parsePronunciation({ term: ' Xi ', alias: 'Shee' })).toEqual({ entry: { term: 'Xi', alias: 'Shee' } });
+    expect(parsePronunciation({ term: 'Xi' })).toEqual({ error: 'Exactly one of alias and phoneme is required' });
+    expect(parsePronunciation({ term: 'Xi', alias: 'Shee', phoneme: 'ʃi' })).toEqual({ error: 'Exactly one of alias and phoneme is required' });
+  });
+
+  it('rejects markup that would break the phoneme tags', () => {
+    expect(parsePronunciation({ term: 'Xi', phoneme: 'ʃi">' })).toEqual({ error: 'Pronunciation must not contain <, > or "' });
+  });
+});
@@ -0,0 +1,61 @@
+import { NarrationAlignment, alignScenesToNarration, cleanScript, tokenizeNarration } from '../src/services/sceneAlignment';
+import { NarrationWord, VideoScene } from '../src/types';
+import { SCRIPT, scene } from './fixtures';
+
+// Spoken words with their start times; each lasts 0.4 seconds
+const timed = (...words: [string, number][]): NarrationWord[] =>
+  words.map(([word, start]) => ({ word, start, end: start + 0.4 }));
+
+const WORDS = timed(
+  ['Prices', 0.1], ['rose', 0.5], ['again.', 0.9],
+  ['The', 2], ['Fed', 2.4], ['met', 2.8], ['on', 3.2], ['Tuesday.', 3.6],
+  ['Markets', 5], ['fell.', 5.4]
+);
+
+describe('cleanScript', () => {
+  it('removes section headers and empty lines', () => {
+    expect(cleanScript(SCRIPT)).toBe('Prices rose again.\nThe Fed met on Tuesday. Markets fell.');
+  });
+});
+
+describe('tokenizeNarration', () => {
+  it('lowercases and drops punctuation and apostrophes', () => {
+    expect(tokenizeNarration('The Fed’s “big” move, again!')).toEqual(['the', 'feds', 'big', 'move', 'again']);
+  });
+});
+
+describe('alignScenesToNarration', () => {
+  const scenes = [
+    scene({ narration: 'Prices rose again.' }),
+    scene({ narration: 'The Fed met on Tuesday.' }),
+    scene({ narration: 'Markets fell.' })
+  ];
+  const alignedScenes = (alignment: NarrationAlignment): VideoScene[] => alignment.aligned ? alignment.scenes : [];
+
+  it('starts each scene just before its first word is spoken', () => {
+    const aligned = alignedScenes(alignScenesToNarration(scenes, cleanScript(SCRIPT), WORDS, 7));
+    expect(aligned.map(planned => planned.startTime)).toEqual([0, expect.closeTo(1.85), expect.closeTo(4.85)]);
+    expect(aligned.map(planned => planned.duration)).toEqual([expect.closeTo(1.85), expect.closeTo(3), expect.closeTo(2.15)]);
+  });
+
+  it('interpolates words the transcript spells differently', () => {
+    const words = WORDS.map(word => word.word === 'Markets' ? { ...word, word: 'Market' } : word);
+    const aligned = alignedScenes(alignScenesToNarration(scenes, cleanScript(SCRIPT), words, 7));
+    expect(aligned[2].startTime).toBeGreaterThan(3.6);
+    expect(aligned[2].startTime).toBeLessThan(5.4);
+  });
+
+  it('gives up when a scene has no narration or it is not in the script', () => {
+    const reason = 'A scene has no narration or its narration is not in the script';
+    expect(alignScenesToNarration([scenes[0], scene({ narration: '' })], cleanScript(SCRIPT), WORDS, 7))
+      .toEqual({ aligned: false, reason });
+    expect(alignScenesToNarration([scenes[0], scene({ narration: 'Rates were cut.' })], cleanScript(SCRIPT), WORDS, 7))
+      .toEqual({ aligned: false, reason });
+  });
+
+  it('gives up when the transcript does not match the script', () => {
+    const words = timed(['Something', 0], ['else', 1], ['entirely', 2]);
+    expect(alignScenesToNarration(scenes, cleanScript(SCRIPT), words, 7))
+      .toEqual({ aligned: false, reason: 'Only 0 of 10 script words found in the transcript' });
+  });
+});
@@ -0,0 +1,50 @@
+import { splitScript } from '../src/services/scriptChunks';
+
+// A sentence of exactly `length` characters, ending in a period
+const sentence = (length: number) => `${'x'.repeat(length - 1)}.`;
+
+describe('splitScript', () => {
+  it('keeps a short script in a single chunk', () => {
+    expect(splitScript('Prices rose again. Markets fell.')).toEqual([
+      { index: 0, text: 'Prices rose again. Markets fell.', pauseAfter: 0 }
+    ]);
+  });
+
+  it('returns no chunks for an empty script', () => {
+    expect(splitScript(' \n\n ')).toEqual([]);
+  });
+
+  it('joins short paragraphs, keeping the line break', () => {
+    expect(splitScript('First paragraph.\n\nSecond paragraph.')).toEqual([
+      { index: 0, text: 'First paragraph.\nSecond paragraph.', pauseAfter: 0 }
+    ]);
+  });
+
+  it('ends a chunk at a long enough paragraph, with a paragraph pause', () => {
+    const first = [sentence(100), sentence(120)].join(' ');
+    const chunks = splitScript(`${first}\n${sentence(50)}`);
+    expect(chunks).toEqual([
+      { index: 0, text: first, pauseAfter: 0.5 },
+      { index: 1, text: sentence(50), pauseAfter: 0 }
+    ]);
+  });
+
+  it('splits a long paragraph at sentence ends, with a sentence pause', () => {
+    const sentences = Array.from({ length: 10 }, () => sentence(100));
+    const chunks = splitScript(sentences.join(' '));
+    expect(chunks.map(chunk => chunk.text)).toEqual([sentences.slice(0, 6).join(' '), sentences.slice(6).join(' ')]);
+    expect(chunks.map(chunk => chunk.pauseAfter)).toEqual([0.25, 0]);
+    expect(chunks.every(chunk => chunk.text.length <= 700)).toBe(true);
+  });
+
+  it('splits after closing quotes and the sentence ends of other scripts', () => {
+    const quoted = `${sentence(400)} He said "${sentence(400)}" ${sentence(100)}`;
+    expect(splitScript(quoted).map(chunk => chunk.text)).toEqual([
+      sentence(400),
+      `He said "${sentence(400)}" ${sentence(100)}`
+    ]);
+
+    const hindi = `${'क'.repeat(400)}। ${'ख'.repeat(400)}।`;
+    expect(splitScript(hindi).map(chunk => chunk.text)).toEqual([`${'क'.repeat(400)}।`, `${'ख'.repeat(400)}।`]);
+  });
+});
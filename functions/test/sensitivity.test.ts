@@ -0,0 +1,101 @@
+import { applySensitivityProfile, classifySensitivity } from '../src/services/sensitivity';
+import { ContextAnalysis, SensitivityAssessment, VideoAnalysis, VideoScene } from '../src/types';
+import { scene } from './fixtures';
+
+const context = (overrides: Partial<ContextAnalysis> = {}): ContextAnalysis => ({
+  mainTopic: 'Quarterly earnings',
+  category: 'business',
+  keyEntities: { people: [], organizations: ['Acme'], events: [] },
+  relatedThemes: ['growth'],
+  visualConcepts: ['office'],
+  targetAudience: 'investors',
+  mood: 'upbeat',
+  ...overrides
+});
+
+const rated = (level: SensitivityAssessment['level'], reasons: string[] = []) => ({ sensitivity: { level, reasons } });
+
+// Styled for a regular story, to be toned down for sensitive ones
+const styled = (overrides: Partial<VideoScene> = {}) => scene({
+  transition: { type: 'glitch', duration: 0.5 },
+  effect: { type: 'color_boost', intensity: 0.8 },
+  ...overrides
+});
+
+const analysis = (contextAnalysis: ContextAnalysis): VideoAnalysis => ({
+  contextAnalysis,
+  scenes: [styled(), styled({ id: 'scene-1', transition: { type: 'fade', duration: 0.5 }, effect: { type: 'ken_burns', intensity: 0.9 } })],
+  totalDuration: 6,
+  mainVisualTheme: 'City',
+  musicMood: 'energetic',
+  visualMotifs: [],
+  defaultTransition: 'flash_white',
+  defaultEffect: 'dramatic'
+});
+
+describe('classifySensitivity', () => {
+  it('rates a regular story as none', () => {
+    expect(classifySensitivity(context()).level).toBe('none');
+  });
+
+  it('keeps the model rating', () => {
+    expect(classifySensitivity(context(rated('tragic', ['Deaths'])))).toEqual({ level: 'tragic', reasons: ['Deaths'] });
+    expect(classifySensitivity(context({ ...rated('sensitive'), mood: 'somber' })).level).toBe('sensitive');
+  });
+
+  it('does not overrule the model on a single term', () => {
+    expect(classifySensitivity(context({ ...rated('none'), mainTopic: 'Earthquake drill at the office' })).level).toBe('none');
+  });
+
+  it('ignores words with everyday meanings', () => {
+    const assessment = classifySensitivity(context({
+      mainTopic: 'Market crash in the price war',
+      relatedThemes: ['crisis', 'attack', 'shooting a film', 'flood of orders']
+    }));
+    expect(assessment.level).toBe('none');
+  });
+
+  it('raises an under-rated story with several terms to sensitive, never tragic', () => {
+    const assessment = classifySensitivity(context({
+      ...rated('none'),
+      mainTopic: 'Earthquake kills hundreds',
+      relatedThemes: ['fatalities', 'funeral', 'victims']
+    }));
+    expect(assessment.level).toBe('sensitive');
+    expect(assessment.reasons).toEqual(['Story mentions fatalities, funeral, victims']);
+  });
+
+  it('treats an unknown model rating as none', () => {
+    const unknown = { sensitivity: { level: 'extreme', reasons: [] } } as unknown as Partial<ContextAnalysis>;
+    expect(classifySensitivity(context(unknown)).level).toBe('none');
+  });
+});
+
+describe('applySensitivityProfile', () => {
+  it('leaves the style of a regular story alone', () => {
+    const plan = analysis(context());
+    const { analysis: styled, override } = applySensitivityProfile(plan);
+    expect(override).toBeNull();
+    expect(styled.scenes).toEqual(plan.scenes);
+    expect(styled.contextAnalysis.sensitivity).toEqual({ level: 'none', reasons: [] });
+  });
+
+  it('restrains a sensitive story and turns the music somber', () => {
+    const { analysis: styled, override } = applySensitivityProfile(analysis(context(rated('sensitive'))));
+    expect(styled.scenes.map(restrained => restrained.transition.type)).toEqual(['fade', 'fade']);
+    expect(styled.scenes.map(restrained => restrained.effect)).toEqual([
+      { type: 'none', intensity: 0.8 },
+      { type: 'ken_burns', intensity: 0.5 }
+    ]);
+    expect(styled.defaultTransition).toBe('fade');
+    expect(styled.defaultEffect).toBe('none');
+    expect(styled.musicMood).toBe('somber');
+    expect(override).toMatchObject({ level: 'sensitive', transitionsReplaced: 1, effectsReplaced: 2, music: 'somber' });
+  });
+
+  it('drops the music of a tragic story', () => {
+    const { analysis: styled, override } = applySensitivityProfile(analysis(context(rated('tragic'))));
+    expect(styled.musicMood).toBeUndefined();
+    expect(override?.music).toBe('none');
+  });
+});
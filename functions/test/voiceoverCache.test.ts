@@ -0,0 +1,28 @@
+import { VoiceoverCacheInputs, getVoiceoverCacheKey } from '../src/services/voiceoverCache';
+
+const INPUTS: VoiceoverCacheInputs = {
+  text: 'Prices rose again.\nThe Fed met on Tuesday.',
+  voiceId: 'voice-1',
+  modelId: 'eleven_multilingual_v2',
+  voiceSettings: { stability: 0.5, similarity_boost: 0.75 }
+};
+
+describe('getVoiceoverCacheKey', () => {
+  it('gives the same voiceover the same key, whichever reel asks for it', () => {
+    expect(getVoiceoverCacheKey({ ...INPUTS, voiceSettings: { ...INPUTS.voiceSettings } })).toBe(getVoiceoverCacheKey(INPUTS));
+    expect(getVoiceoverCacheKey(INPUTS)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('changes with anything that changes how the voiceover sounds', () => {
+    const key = getVoiceoverCacheKey(INPUTS);
+    expect(getVoiceoverCacheKey({ ...INPUTS, text: 'Prices rose again.' })).not.toBe(key);
+    expect(getVoiceoverCacheKey({ ...INPUTS, voiceId: 'voice-2' })).not.toBe(key);
+    expect(getVoiceoverCacheKey({ ...INPUTS, modelId: 'eleven_turbo_v2_5' })).not.toBe(key);
+    expect(getVoiceoverCacheKey({ ...INPUTS, voiceSettings: { ...INPUTS.voiceSettings, stability: 0.3 } })).not.toBe(key);
+  });
+
+  it('does not mistake one field for another', () => {
+    expect(getVoiceoverCacheKey({ ...INPUTS, text: 'a', voiceId: 'b|c' }))
+      .not.toBe(getVoiceoverCacheKey({ ...INPUTS, text: 'a|b', voiceId: 'c' }));
+  });
+});
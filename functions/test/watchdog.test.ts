@@ -0,0 +1,33 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { chooseRecovery } from '../src/pipeline/watchdog';
+
+// The pipeline loads the provider config, which the decision does not need
+jest.mock('../src/pipeline/reelPipeline', () => ({
+  discardPipelineWork: jest.fn(),
+  resumeReelPipeline: jest.fn()
+}));
+
+const CUTOFF = Timestamp.fromMillis(Date.parse('2025-01-01T12:00:00Z'));
+
+const stalled = (overrides: Record<string, unknown> = {}) => ({
+  status: 'assemblingVideo',
+  updatedAt: Timestamp.fromMillis(CUTOFF.toMillis() - 60000),
+  ...overrides
+});
+
+describe('chooseRecovery', () => {
+  it('resumes a stalled reel while it has retries left', () => {
+    expect(chooseRecovery(stalled(), 'assemblingVideo', CUTOFF)).toBe('resume');
+    expect(chooseRecovery(stalled({ watchdogRetries: 1 }), 'assemblingVideo', CUTOFF)).toBe('resume');
+  });
+
+  it('fails a reel once its retries are spent', () => {
+    expect(chooseRecovery(stalled({ watchdogRetries: 2 }), 'assemblingVideo', CUTOFF)).toBe('fail');
+  });
+
+  it('leaves reels alone that moved on since the query', () => {
+    expect(chooseRecovery(undefined, 'assemblingVideo', CUTOFF)).toBeNull();
+    expect(chooseRecovery(stalled({ status: 'finalizing' }), 'assemblingVideo', CUTOFF)).toBeNull();
+    expect(chooseRecovery(stalled({ updatedAt: CUTOFF }), 'assemblingVideo', CUTOFF)).toBeNull();
+  });
+});